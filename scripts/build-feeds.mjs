@@ -0,0 +1,203 @@
+import fs from 'node:fs'
+import path from 'node:path'
+import { fileURLToPath } from 'node:url'
+import {
+  buildPlayerDirectory,
+  buildZoneTimelines,
+  parseCsv,
+  parseDataFileName,
+  resolvePlayer,
+  SEGMENT_LABEL,
+} from '../src/data/index.ts'
+import { formatRoute, HOME_ROUTE, VIEW_MODE } from '../src/route.ts'
+
+const __filename = fileURLToPath(import.meta.url)
+const __dirname = path.dirname(__filename)
+const root = path.resolve(__dirname, '..')
+const dataDir = path.join(root, 'public', 'data', 'wr-history-all')
+const feedsDir = path.join(root, 'public', 'feeds')
+const overridesPath = path.join(root, 'public', 'data', 'player-overrides.json')
+
+const FEED_LIMIT = Number.parseInt(process.env.FEED_LIMIT ?? '50', 10)
+const MAP_FEED_LIMIT = Number.parseInt(process.env.MAP_FEED_LIMIT ?? '20', 10)
+const host = fs.readFileSync(path.join(root, 'public', 'CNAME'), 'utf8').trim()
+const siteUrl = (process.env.FEED_SITE_URL ?? `https://${host}/`).replace(/\/?$/, '/')
+
+const files = []
+for (const file of fs.readdirSync(dataDir).sort()) {
+  const parsed = parseDataFileName(file)
+  if (!parsed) continue
+  files.push({ ...parsed, rows: parseCsv(fs.readFileSync(path.join(dataDir, file), 'utf8')) })
+}
+
+// Resolved like index.json, so entries name players the way the site does.
+const overrides = fs.existsSync(overridesPath)
+  ? JSON.parse(fs.readFileSync(overridesPath, 'utf8'))
+  : []
+const directory = buildPlayerDirectory(files.flatMap((file) => file.rows), overrides)
+
+const changes = []
+for (const { map, klass, rows } of files) {
+  for (const { zone, timeline } of buildZoneTimelines(rows)) {
+    // Counts a player's records per day, so two on the same segment and date keep distinct IDs.
+    const seen = new Map()
+    timeline.forEach((point, index) => {
+      const player = resolvePlayer(point, directory)
+      const key = `${point.date}/${player?.key ?? ''}`
+      const ordinal = (seen.get(key) ?? 0) + 1
+      seen.set(key, ordinal)
+      const previous = timeline[index - 1] ?? null
+      changes.push({ map, klass, zone, point, player, previous, index, ordinal })
+    })
+  }
+}
+
+// Newest first, with a fixed tie order so unchanged data produces byte-identical feeds.
+changes.sort(
+  (a, b) =>
+    b.point.date.localeCompare(a.point.date) ||
+    a.map.localeCompare(b.map) ||
+    a.klass.localeCompare(b.klass) ||
+    (a.zone?.id ?? '').localeCompare(b.zone?.id ?? '') ||
+    b.index - a.index
+)
+
+fs.rmSync(feedsDir, { recursive: true, force: true })
+fs.mkdirSync(path.join(feedsDir, 'maps'), { recursive: true })
+
+writeFeed('all', 'Tempus WR History: latest WR changes', changes, FEED_LIMIT)
+for (const klass of ['Solly', 'Demo']) {
+  writeFeed(
+    klass.toLowerCase(),
+    `Tempus WR History: latest ${klass} WR changes`,
+    changes.filter((change) => change.klass === klass),
+    FEED_LIMIT
+  )
+}
+
+const byMap = new Map()
+for (const change of changes) {
+  if (!byMap.has(change.map)) byMap.set(change.map, [])
+  byMap.get(change.map).push(change)
+}
+for (const [map, items] of byMap) {
+  writeFeed(`maps/${map}`, `Tempus WR History: ${map}`, items, MAP_FEED_LIMIT)
+}
+
+console.log(`Wrote ${feedsDir} (${3 + byMap.size} feeds)`)
+
+function writeFeed(name, title, items, limit) {
+  const entries = items.slice(0, limit).map(toEntry)
+  // Use the newest entry date rather than the build time so re-running on the same data changes nothing.
+  const updated = entries[0]?.updated ?? '1970-01-01T00:00:00Z'
+  const feedUrl = `${siteUrl}feeds/${name}`
+
+  fs.writeFileSync(path.join(feedsDir, `${name}.atom`), renderAtom({ title, feedUrl, updated, entries }))
+  fs.writeFileSync(
+    path.join(feedsDir, `${name}.json`),
+    JSON.stringify(renderJsonFeed({ title, feedUrl, entries }), null, 2)
+  )
+}
+
+function toEntry({ map, klass, zone, point, player, previous, ordinal }) {
+  const zoneLabel = zone?.label ?? SEGMENT_LABEL.Map
+  const name = player?.name ?? point.player
+  const title = `${map} (${klass}) ${zoneLabel}: ${point.record_time} by ${name}`
+
+  // tag: URIs leave out the time and raw name, which reconciliation and identity merges can
+  // change, so feed readers see the same ID on every build.
+  const idParts = [map, klass, zone?.id ?? 'map', player?.key ?? '']
+  if (ordinal > 1) idParts.push(ordinal)
+
+  const details = []
+  if (previous) {
+    const previousName = resolvePlayer(previous, directory)?.name ?? previous.player
+    details.push(`Previous: ${previous.record_time} by ${previousName} (${formatDelta(point, previous)}).`)
+  } else {
+    details.push('First recorded time.')
+  }
+  details.push(`Evidence: ${point.evidence}${point.evidence_source ? ` (${point.evidence_source})` : ''}.`)
+  if (point.wipedBoundary) details.push('Slower than the previous WR, so earlier times were likely wiped.')
+  if (point.wiped) details.push('This time was later wiped.')
+
+  return {
+    id: `tag:${host},${point.date}:${idParts.map(encodeURIComponent).join('/')}`,
+    title,
+    url: buildDeepLink(map, klass, zone),
+    updated: `${point.date}T00:00:00Z`,
+    summary: details.join(' '),
+    author: name,
+    tags: [klass, zone ? zone.kind : 'map', point.evidence].filter(Boolean),
+  }
+}
+
+// Built like the app's own links so entries deep-link into the map or zone they describe.
+function buildDeepLink(map, klass, zone) {
+  const hash = formatRoute({
+    ...HOME_ROUTE,
+    map,
+    className: klass,
+    view: zone ? VIEW_MODE.Zones : VIEW_MODE.Map,
+    zone: zone?.id ?? null
+  })
+  return `${siteUrl}${hash}`
+}
+
+function formatDelta(point, previous) {
+  const delta = point.recordSeconds - previous.recordSeconds
+  return `${delta < 0 ? '-' : '+'}${Math.abs(delta).toFixed(2)}s`
+}
+
+function renderAtom({ title, feedUrl, updated, entries }) {
+  const lines = [
+    '<?xml version="1.0" encoding="utf-8"?>',
+    '<feed xmlns="http://www.w3.org/2005/Atom">',
+    `  <id>${escapeXml(`${feedUrl}.atom`)}</id>`,
+    `  <title>${escapeXml(title)}</title>`,
+    `  <updated>${updated}</updated>`,
+    `  <link rel="self" type="application/atom+xml" href="${escapeXml(`${feedUrl}.atom`)}"/>`,
+    `  <link rel="alternate" type="text/html" href="${escapeXml(siteUrl)}"/>`,
+  ]
+  for (const entry of entries) {
+    lines.push(
+      '  <entry>',
+      `    <id>${escapeXml(entry.id)}</id>`,
+      `    <title>${escapeXml(entry.title)}</title>`,
+      `    <link rel="alternate" type="text/html" href="${escapeXml(entry.url)}"/>`,
+      `    <updated>${entry.updated}</updated>`,
+      `    <author><name>${escapeXml(entry.author)}</name></author>`,
+      ...entry.tags.map((tag) => `    <category term="${escapeXml(tag)}"/>`),
+      `    <summary>${escapeXml(entry.summary)}</summary>`,
+      '  </entry>'
+    )
+  }
+  lines.push('</feed>', '')
+  return lines.join('\n')
+}
+
+function renderJsonFeed({ title, feedUrl, entries }) {
+  return {
+    version: 'https://jsonfeed.org/version/1.1',
+    title,
+    home_page_url: siteUrl,
+    feed_url: `${feedUrl}.json`,
+    items: entries.map((entry) => ({
+      id: entry.id,
+      url: entry.url,
+      title: entry.title,
+      content_text: entry.summary,
+      date_published: entry.updated,
+      authors: [{ name: entry.author }],
+      tags: entry.tags,
+    })),
+  }
+}
+
+function escapeXml(value) {
+  return String(value)
+    .replaceAll('&', '&amp;')
+    .replaceAll('<', '&lt;')
+    .replaceAll('>', '&gt;')
+    .replaceAll('"', '&quot;')
+    .replaceAll("'", '&apos;')
+}
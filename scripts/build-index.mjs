@@ -1,34 +1,68 @@
 import fs from 'node:fs'
 import path from 'node:path'
 import { fileURLToPath } from 'node:url'
+import {
+  buildPlayerDirectory,
+  buildZoneTimelines,
+  encodeShard,
+  getMapType,
+  parseCsv,
+  parseDataFileName,
+  resolvePlayer
+} from '../src/data/index.ts'
 
 const __filename = fileURLToPath(import.meta.url)
 const __dirname = path.dirname(__filename)
 const root = path.resolve(__dirname, '..')
 const dataDir = path.join(root, 'public', 'data', 'wr-history-all')
+const activityDir = path.join(root, 'public', 'data', 'activity')
+const shardDir = path.join(root, 'public', 'data', 'shards')
+// Hand-checked identities for names the data cannot tie to a Steam ID on its own.
+const overridesPath = path.join(root, 'public', 'data', 'player-overrides.json')
+// Tiers, ratings and authors, keyed by map; `data:validate` rejects maps without a CSV.
+const metadataPath = path.join(root, 'public', 'data', 'map-metadata.json')
 
-const files = fs.readdirSync(dataDir).filter((file) => file.endsWith('.csv'))
+// Shards are cut by source CSV size so cross-map views need only a handful of requests.
+const SHARD_SOURCE_BYTES = 3 * 1024 * 1024
 
-const entries = new Map()
-const prefix = 'wr_history_'
+// Activity entries are written as tuples to keep the per-year files small; the app decodes them by field name.
+const ACTIVITY_FIELDS = [
+  'date',
+  'map',
+  'class',
+  'segment',
+  'record_time',
+  'previous_time',
+  'player',
+  'previous_player',
+  'steam_id64',
+  'steam_id',
+  'steam_candidates',
+  'evidence',
+  'evidence_source',
+  'demo_id',
+  'wiped',
+  'wiped_boundary'
+]
 
-for (const file of files) {
-  if (!file.startsWith(prefix)) continue
+const files = fs
+  .readdirSync(dataDir)
+  .filter((file) => file.endsWith('.csv'))
+  .sort()
 
-  let map = null
-  let klass = null
-  if (file.endsWith('_Demo.csv')) {
-    klass = 'Demo'
-    map = file.slice(prefix.length, -'_Demo.csv'.length)
-  } else if (file.endsWith('_Solly.csv')) {
-    klass = 'Solly'
-    map = file.slice(prefix.length, -'_Solly.csv'.length)
-  }
+const entries = new Map()
+const activity = []
+const shardFiles = []
+// Current holder row per class summary, renamed once every player is resolved.
+const holders = new Map()
 
-  if (!map || !klass) continue
+for (const file of files) {
+  const parsed = parseDataFileName(file)
+  if (!parsed) continue
+  const { map, klass } = parsed
 
   if (!entries.has(map)) {
-    entries.set(map, { map, classes: [], files: {} })
+    entries.set(map, { map, classes: [], files: {}, summary: {} })
   }
 
   const entry = entries.get(map)
@@ -37,19 +71,159 @@ for (const file of files) {
   }
 
   entry.files[klass] = `data/wr-history-all/${file}`
+  const text = fs.readFileSync(path.join(dataDir, file), 'utf8')
+  const rows = parseCsv(text)
+  shardFiles.push({ map, className: klass, rows, bytes: Buffer.byteLength(text) })
+  const timelines = buildZoneTimelines(rows)
+  entry.summary[klass] = summarize(timelines)
+  const current = timelines.find((item) => item.zone == null)?.timeline.at(-1)
+  if (current) holders.set(entry.summary[klass], current)
+  collectActivity(map, klass, timelines)
 }
 
+const metadata = fs.existsSync(metadataPath)
+  ? JSON.parse(fs.readFileSync(metadataPath, 'utf8'))
+  : {}
 const maps = Array.from(entries.values()).sort((a, b) => a.map.localeCompare(b.map))
 for (const entry of maps) {
   entry.classes.sort()
+  const { tiers, rating, author, type } = Object.hasOwn(metadata, entry.map)
+    ? metadata[entry.map]
+    : {}
+  Object.assign(entry, { type: type ?? getMapType(entry.map), tiers, rating, author })
+}
+
+function summarize(timelines) {
+  const timeline = timelines.find((item) => item.zone == null)?.timeline ?? []
+  const first = timeline[0]
+  const current = timeline[timeline.length - 1]
+
+  return {
+    currentTime: current?.record_time ?? null,
+    currentSeconds: current?.recordSeconds ?? null,
+    holder: current?.player ?? null,
+    changes: timeline.length,
+    firstDate: first?.date ?? null,
+    latestDate: current?.date ?? null,
+    zones: timelines.filter((item) => item.zone != null).length
+  }
+}
+
+function collectActivity(map, klass, timelines) {
+  for (const { timeline } of timelines) {
+    timeline.forEach((point, index) => {
+      const previous = timeline[index - 1]
+      const values = {
+        ...point,
+        class: klass,
+        map,
+        previous_time: previous?.record_time ?? '',
+        previous_player: previous?.player ?? '',
+        wiped: point.wiped ? 1 : 0,
+        wiped_boundary: point.wipedBoundary ? 1 : 0
+      }
+      activity.push({ values, index, tuple: ACTIVITY_FIELDS.map((field) => values[field] ?? '') })
+    })
+  }
+}
+
+function writeActivity() {
+  // Newest first, with a fixed tie order so unchanged data produces identical files.
+  activity.sort(
+    (a, b) =>
+      b.values.date.localeCompare(a.values.date) ||
+      a.values.map.localeCompare(b.values.map) ||
+      a.values.class.localeCompare(b.values.class) ||
+      a.values.segment.localeCompare(b.values.segment) ||
+      b.index - a.index
+  )
+
+  const years = new Map()
+  for (const item of activity) {
+    const year = item.values.date.slice(0, 4)
+    if (!years.has(year)) years.set(year, [])
+    years.get(year).push(item.tuple)
+  }
+
+  fs.rmSync(activityDir, { recursive: true, force: true })
+  fs.mkdirSync(activityDir, { recursive: true })
+
+  const pages = []
+  for (const [year, items] of years) {
+    const file = `data/activity/${year}.json`
+    fs.writeFileSync(
+      path.join(activityDir, `${year}.json`),
+      JSON.stringify({ year, fields: ACTIVITY_FIELDS, entries: items })
+    )
+    pages.push({ year, file, count: items.length })
+  }
+
+  const activityIndex = {
+    generatedAt: output.generatedAt,
+    count: activity.length,
+    years: pages
+  }
+  fs.writeFileSync(path.join(activityDir, 'index.json'), JSON.stringify(activityIndex, null, 2))
+  console.log(`Wrote ${activityDir} (${activity.length} WR changes across ${pages.length} years)`)
+}
+
+function writeShards() {
+  shardFiles.sort((a, b) => a.map.localeCompare(b.map) || a.className.localeCompare(b.className))
+  const groups = [[]]
+  let bytes = 0
+  for (const file of shardFiles) {
+    // Never split one map's classes across shards.
+    const current = groups[groups.length - 1]
+    const previous = current[current.length - 1]
+    if (bytes >= SHARD_SOURCE_BYTES && previous?.map !== file.map) {
+      groups.push([])
+      bytes = 0
+    }
+    groups[groups.length - 1].push(file)
+    bytes += file.bytes
+  }
+
+  fs.rmSync(shardDir, { recursive: true, force: true })
+  fs.mkdirSync(shardDir, { recursive: true })
+
+  return groups.map((group, index) => {
+    const name = `${String(index).padStart(3, '0')}.json`
+    fs.writeFileSync(path.join(shardDir, name), JSON.stringify(encodeShard(group)))
+    return {
+      file: `data/shards/${name}`,
+      files: group.length,
+      rows: group.reduce((total, file) => total + file.rows.length, 0)
+    }
+  })
+}
+
+const shards = writeShards()
+console.log(`Wrote ${shardDir} (${shardFiles.length} files in ${shards.length} shards)`)
+
+const overrides = fs.existsSync(overridesPath)
+  ? JSON.parse(fs.readFileSync(overridesPath, 'utf8'))
+  : []
+const players = buildPlayerDirectory(
+  shardFiles.flatMap((file) => file.rows),
+  overrides
+)
+const playerCount = Object.keys(players.players).length
+console.log(`Resolved ${playerCount} Steam IDs (${overrides.length} overrides)`)
+for (const [summary, point] of holders) {
+  summary.holder = resolvePlayer(point, players)?.name ?? summary.holder
 }
 
 const output = {
   generatedAt: new Date().toISOString(),
   count: maps.length,
-  maps
+  shards,
+  maps,
+  players
 }
 
 const outPath = path.join(root, 'public', 'data', 'index.json')
-fs.writeFileSync(outPath, JSON.stringify(output, null, 2))
-console.log(`Wrote ${outPath} (${maps.length} maps)`) 
+// Compact: every page load fetches this, and the player directory alone is most of it.
+fs.writeFileSync(outPath, JSON.stringify(output))
+console.log(`Wrote ${outPath} (${maps.length} maps)`)
+
+writeActivity() 
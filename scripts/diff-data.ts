@@ -0,0 +1,185 @@
+import { execFileSync } from 'node:child_process'
+import fs from 'node:fs'
+import path from 'node:path'
+import { parseArgs } from 'node:util'
+import {
+  diffSnapshots,
+  parseCsv,
+  parseDataFileName,
+  type DiffChange,
+  type DiffRow,
+  type Snapshot,
+  type SnapshotDiff
+} from '../src/data/index.ts'
+
+const usage = `Usage: npm run data:diff -- <before> [after] [options]
+
+Compares two data snapshots and prints a changelog. Each snapshot is either a
+directory of wr_history_*.csv files or a git revision written as git:<rev>.
+[after] defaults to the working tree.
+
+Options:
+  --data-path <path>  Data directory inside the repo for git:<rev> snapshots
+                      (default: public/data/wr-history-all)
+  --json              Print the JSON diff instead of Markdown
+  --out <path>        Write the output to this file instead of stdout
+  -h, --help          Show this help
+
+Examples:
+  npm run data:diff -- git:HEAD~1 git:HEAD
+  npm run data:diff -- git:HEAD --json --out data-diff.json`
+
+const DEFAULT_DATA_PATH = 'public/data/wr-history-all'
+
+const { values, positionals } = parseArgs({
+  allowPositionals: true,
+  options: {
+    'data-path': { type: 'string', default: DEFAULT_DATA_PATH },
+    json: { type: 'boolean', default: false },
+    out: { type: 'string' },
+    help: { type: 'boolean', short: 'h', default: false }
+  }
+})
+
+if (values.help || positionals.length === 0 || positionals.length > 2) {
+  console.log(usage)
+  process.exit(values.help ? 0 : 1)
+}
+
+const dataPath = values['data-path']
+const [beforeSource, afterSource = dataPath] = positionals
+const diff = diffSnapshots(loadSnapshot(beforeSource), loadSnapshot(afterSource))
+const output = values.json
+  ? JSON.stringify({ before: beforeSource, after: afterSource, ...diff }, null, 2)
+  : renderMarkdown(beforeSource, afterSource, diff)
+
+if (values.out) {
+  fs.writeFileSync(values.out, `${output}\n`)
+} else {
+  console.log(output)
+}
+
+function loadSnapshot(source: string): Snapshot {
+  return source.startsWith('git:') ? loadGitSnapshot(source.slice(4)) : loadDirSnapshot(source)
+}
+
+function loadDirSnapshot(dir: string): Snapshot {
+  const snapshot: Snapshot = new Map()
+  const files = fs.readdirSync(dir).filter((file) => parseDataFileName(file)).sort()
+  for (const file of files) {
+    snapshot.set(file, parseCsv(fs.readFileSync(path.join(dir, file), 'utf8')))
+  }
+  return snapshot
+}
+
+function loadGitSnapshot(rev: string): Snapshot {
+  const listing = execFileSync('git', ['ls-tree', '-r', '--name-only', rev, '--', dataPath], {
+    encoding: 'utf8',
+    maxBuffer: 64 * 1024 * 1024
+  })
+  const paths = listing
+    .split('\n')
+    .filter((file) => file && parseDataFileName(path.posix.basename(file)))
+    .sort()
+
+  // One cat-file process reads every blob; spawning git show per file is far slower.
+  const batch = execFileSync('git', ['cat-file', '--batch'], {
+    input: paths.map((file) => `${rev}:${file}\n`).join(''),
+    maxBuffer: 1024 * 1024 * 1024
+  })
+
+  const snapshot: Snapshot = new Map()
+  let offset = 0
+  for (const file of paths) {
+    const headerEnd = batch.indexOf(0x0a, offset)
+    const header = batch.toString('utf8', offset, headerEnd)
+    const size = Number.parseInt(header.split(' ')[2] ?? '', 10)
+    if (!Number.isFinite(size)) {
+      throw new Error(`Could not read ${rev}:${file} (${header})`)
+    }
+    const start = headerEnd + 1
+    snapshot.set(path.posix.basename(file), parseCsv(batch.toString('utf8', start, start + size)))
+    offset = start + size + 1
+  }
+  return snapshot
+}
+
+function renderMarkdown(before: string, after: string, diff: SnapshotDiff) {
+  const lines = [`# Data changes: ${before} → ${after}`, '']
+  lines.push(
+    `- ${diff.newRecords.length} new WRs`,
+    `- ${diff.addedRows.length} other added rows`,
+    `- ${diff.removedRows.length} removed rows`,
+    `- ${diff.evidenceChanges.length} evidence changes`,
+    `- ${diff.identityChanges.length} identity changes`,
+    `- ${diff.mapsAdded.length} maps added, ${diff.mapsRemoved.length} maps removed`,
+    `- ${diff.classesAdded.length} classes added, ${diff.classesRemoved.length} classes removed`
+  )
+
+  pushList(lines, 'Maps added', diff.mapsAdded)
+  pushList(lines, 'Maps removed', diff.mapsRemoved)
+  pushList(
+    lines,
+    'Classes added',
+    diff.classesAdded.map((entry) => `${entry.map} (${entry.className})`)
+  )
+  pushList(
+    lines,
+    'Classes removed',
+    diff.classesRemoved.map((entry) => `${entry.map} (${entry.className})`)
+  )
+  pushRows(lines, 'New WRs', diff.newRecords)
+  pushRows(lines, 'Other added rows', diff.addedRows)
+  pushRows(lines, 'Removed rows', diff.removedRows)
+  pushChanges(lines, 'Evidence changes', diff.evidenceChanges, (row) =>
+    [row.evidence, row.evidence_source].filter(Boolean).join(' / ')
+  )
+  pushChanges(lines, 'Identity changes', diff.identityChanges, (row) => row.player)
+  return lines.join('\n')
+}
+
+function pushList(lines: string[], title: string, items: string[]) {
+  if (items.length === 0) return
+  lines.push('', `## ${title}`, '', ...items.map((item) => `- ${item}`))
+}
+
+function pushRows(lines: string[], title: string, rows: DiffRow[]) {
+  if (rows.length === 0) return
+  lines.push('', `## ${title}`, '', '| Date | Map | Class | Zone | Time | Player | Evidence |')
+  lines.push('| --- | --- | --- | --- | --- | --- | --- |')
+  for (const row of rows) {
+    const evidence = [row.evidence, row.evidence_source].filter(Boolean).join(' / ')
+    lines.push(
+      `| ${[row.date, row.map, row.className, row.zone, row.record_time, row.player, evidence]
+        .map(escapeCell)
+        .join(' | ')} |`
+    )
+  }
+}
+
+function pushChanges(
+  lines: string[],
+  title: string,
+  changes: DiffChange[],
+  describe: (row: DiffRow) => string
+) {
+  if (changes.length === 0) return
+  lines.push('', `## ${title}`, '', '| Date | Map | Class | Zone | Time | Before | After |')
+  lines.push('| --- | --- | --- | --- | --- | --- | --- |')
+  for (const { before, after } of changes) {
+    const cells = [
+      after.date,
+      after.map,
+      after.className,
+      after.zone,
+      after.record_time,
+      describe(before),
+      describe(after)
+    ]
+    lines.push(`| ${cells.map(escapeCell).join(' | ')} |`)
+  }
+}
+
+function escapeCell(value: string) {
+  return (value || '—').replace(/\|/g, '\\|')
+}
@@ -0,0 +1,120 @@
+import fs from 'node:fs'
+import path from 'node:path'
+import { fileURLToPath } from 'node:url'
+import { parseArgs } from 'node:util'
+import {
+  buildTimeline,
+  compareZones,
+  getDataFileName,
+  getZoneInfo,
+  parseCsv,
+  SEGMENT_LABEL,
+  type ZoneInfo
+} from '../src/data/index.ts'
+
+const usage = `Usage: npm run timeline -- <map> [options]
+
+Prints the WR timeline for one map, class and zone, using the same logic as the site.
+
+Options:
+  --class <Solly|Demo>  Class to load (default: Solly)
+  --zone <id>           Zone id such as bonus-1, course-2 or segment-3 (default: the map run)
+  --zones               List the zones recorded for the map instead
+  --json                Print JSON instead of a table
+  --data-dir <path>     Directory holding the wr_history_*.csv files
+  -h, --help            Show this help`
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url))
+
+const { values, positionals } = parseArgs({
+  allowPositionals: true,
+  options: {
+    class: { type: 'string', default: 'Solly' },
+    zone: { type: 'string' },
+    zones: { type: 'boolean', default: false },
+    json: { type: 'boolean', default: false },
+    'data-dir': {
+      type: 'string',
+      default: path.resolve(__dirname, '..', 'public', 'data', 'wr-history-all')
+    },
+    help: { type: 'boolean', short: 'h', default: false }
+  }
+})
+
+const [map] = positionals
+if (values.help || !map) {
+  console.log(usage)
+  process.exit(values.help ? 0 : 1)
+}
+
+const klass = values.class
+if (klass !== 'Solly' && klass !== 'Demo') {
+  console.error(`Unknown class "${klass}". Expected Solly or Demo.`)
+  process.exit(1)
+}
+
+const file = path.join(values['data-dir'], getDataFileName(map, klass))
+if (!fs.existsSync(file)) {
+  console.error(`No ${klass} data for ${map} (${file}).`)
+  process.exit(1)
+}
+
+const rows = parseCsv(fs.readFileSync(file, 'utf8'))
+
+if (values.zones) {
+  const zones = new Map<string, ZoneInfo>()
+  for (const row of rows) {
+    const zone = getZoneInfo(row.segment)
+    if (zone) zones.set(zone.id, zone)
+  }
+  const sorted = Array.from(zones.values()).sort(compareZones)
+  if (values.json) {
+    console.log(JSON.stringify(sorted, null, 2))
+  } else {
+    for (const zone of sorted) console.log(`${zone.id.padEnd(14)} ${zone.label}`)
+  }
+  process.exit(0)
+}
+
+const segment = values.zone ?? SEGMENT_LABEL.Map
+const timeline = buildTimeline(rows, { segment })
+
+if (values.json) {
+  console.log(JSON.stringify({ map, class: klass, segment, timeline }, null, 2))
+} else if (timeline.length === 0) {
+  console.error(`No WR history for ${map} (${klass}, ${segment}).`)
+  process.exit(1)
+} else {
+  printTable(
+    ['Date', 'Time', 'Player', 'Evidence', 'Demo', 'Notes'],
+    timeline.map((point) => [
+      point.date,
+      point.record_time,
+      point.player,
+      [
+        point.evidence_source ? `${point.evidence} (${point.evidence_source})` : point.evidence,
+        point.corroborating.length > 0 ? `+${point.corroborating.length}` : ''
+      ]
+        .filter(Boolean)
+        .join(' '),
+      point.demo_id || '-',
+      [point.wipedBoundary ? 'wipe boundary' : '', point.wiped ? 'wiped' : '']
+        .filter(Boolean)
+        .join(', ')
+    ])
+  )
+}
+
+function printTable(headers: string[], body: string[][]) {
+  const widths = headers.map((header, index) =>
+    Math.max(header.length, ...body.map((cells) => cells[index].length))
+  )
+  const format = (cells: string[]) =>
+    cells
+      .map((cell, index) => cell.padEnd(widths[index]))
+      .join('  ')
+      .trimEnd()
+  console.log(format(headers))
+  console.log(widths.map((width) => '-'.repeat(width)).join('  '))
+  for (const cells of body) console.log(format(cells))
+}
@@ -0,0 +1,108 @@
+import fs from 'node:fs'
+import path from 'node:path'
+import { fileURLToPath } from 'node:url'
+import { parseArgs } from 'node:util'
+import {
+  parseDataFileName,
+  validateCsvFile,
+  validateMapMetadata,
+  validatePlayerOverrides,
+  type ValidationIssue
+} from '../src/data/index.ts'
+
+const usage = `Usage: npm run data:validate -- [options]
+
+Checks every CSV in the data directory, and player-overrides.json and map-metadata.json next to
+it, and exits non-zero if any error is found.
+
+Options:
+  --data-dir <path>  Directory holding the wr_history_*.csv files
+  --report <path>    Write the JSON report to this file
+  --json             Print the JSON report to stdout instead of a summary
+  -h, --help         Show this help`
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url))
+
+const { values } = parseArgs({
+  options: {
+    'data-dir': {
+      type: 'string',
+      default: path.resolve(__dirname, '..', 'public', 'data', 'wr-history-all')
+    },
+    report: { type: 'string' },
+    json: { type: 'boolean', default: false },
+    help: { type: 'boolean', short: 'h', default: false }
+  }
+})
+
+if (values.help) {
+  console.log(usage)
+  process.exit(0)
+}
+
+const dataDir = values['data-dir']
+const files = fs
+  .readdirSync(dataDir)
+  .filter((file) => file.endsWith('.csv'))
+  .sort()
+
+const issues: ValidationIssue[] = []
+for (const file of files) {
+  issues.push(...validateCsvFile(file, fs.readFileSync(path.join(dataDir, file), 'utf8')))
+}
+
+const overridesPath = path.join(dataDir, '..', 'player-overrides.json')
+if (fs.existsSync(overridesPath)) {
+  const file = path.basename(overridesPath)
+  try {
+    const overrides: unknown = JSON.parse(fs.readFileSync(overridesPath, 'utf8'))
+    issues.push(...validatePlayerOverrides(file, overrides))
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error)
+    issues.push({ severity: 'error', code: 'overrides', file, message })
+  }
+}
+
+const metadataPath = path.join(dataDir, '..', 'map-metadata.json')
+if (fs.existsSync(metadataPath)) {
+  const file = path.basename(metadataPath)
+  const classes: Record<string, string[]> = {}
+  for (const name of files) {
+    const parsed = parseDataFileName(name)
+    if (parsed) (classes[parsed.map] ??= []).push(parsed.klass)
+  }
+  try {
+    const metadata: unknown = JSON.parse(fs.readFileSync(metadataPath, 'utf8'))
+    issues.push(...validateMapMetadata(file, metadata, classes))
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error)
+    issues.push({ severity: 'error', code: 'metadata', file, message })
+  }
+}
+
+const errors = issues.filter((issue) => issue.severity === 'error').length
+const warnings = issues.length - errors
+const report = {
+  dataDir: path.relative(process.cwd(), dataDir) || '.',
+  files: files.length,
+  errors,
+  warnings,
+  issues
+}
+
+if (values.report) {
+  fs.writeFileSync(values.report, JSON.stringify(report, null, 2))
+}
+
+if (values.json) {
+  console.log(JSON.stringify(report, null, 2))
+} else {
+  for (const issue of issues) {
+    const location = issue.row != null ? `${issue.file}:${issue.row}` : issue.file
+    const field = issue.field ? ` ${issue.field}=${JSON.stringify(issue.value ?? '')}` : ''
+    console.log(`${issue.severity} [${issue.code}] ${location}${field}: ${issue.message}`)
+  }
+  console.log(`Validated ${files.length} files: ${errors} errors, ${warnings} warnings`)
+}
+
+process.exit(errors > 0 ? 1 : 0)
@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest'
+import { loadFixture } from '../test/fixtures.ts'
+import { buildCommunityStats } from './community.ts'
+import type { DataFile } from './types.ts'
+
+const files: DataFile[] = [
+  { map: 'jump_bomb', className: 'Demo', rows: loadFixture('wr_history_jump_bomb_Demo.csv') },
+  {
+    map: 'jump_4holers',
+    className: 'Solly',
+    rows: loadFixture('wr_history_jump_4holers_Solly.csv')
+  }
+]
+const stats = buildCommunityStats(files)
+const month = (period: string) => stats.months.find((item) => item.period === period)
+
+describe('buildCommunityStats', () => {
+  it('counts changes per class, wiped points included', () => {
+    expect(month('2014-08')).toMatchObject({
+      changes: { Solly: 0, Demo: 2 },
+      holders: { Solly: 0, Demo: 2, All: 2 },
+      evidence: { record: 2, announcement: 0 }
+    })
+    // The third change is the wiped `my feelings 4 u` record.
+    expect(month('2014-10')?.changes.Demo).toBe(3)
+  })
+
+  it('counts each player once per period', () => {
+    expect(month('2014-10')?.holders).toEqual({ Solly: 0, Demo: 2, All: 2 })
+    expect(month('2021-05')).toMatchObject({
+      changes: { Solly: 8, Demo: 0 },
+      holders: { Solly: 5, All: 5 }
+    })
+  })
+
+  it('dates a repeated run by its first sighting', () => {
+    expect(month('2021-04')).toMatchObject({ changes: { Solly: 2 }, evidence: { announcement: 2 } })
+    expect(stats.days['2021-04-30']).toBe(2)
+  })
+
+  it('fills quiet months between the first and last change', () => {
+    const periods = stats.months.map((item) => item.period)
+    expect(periods[0]).toBe('2014-08')
+    expect(periods.at(-1)).toBe('2024-10')
+    expect(periods).toHaveLength(10 * 12 + 3)
+    expect(month('2014-09')).toMatchObject({ changes: { Solly: 0, Demo: 0 } })
+  })
+
+  it('adds months up to years', () => {
+    for (const year of stats.years) {
+      const months = stats.months.filter((item) => item.period.startsWith(year.period))
+      const demo = months.reduce((sum, item) => sum + item.changes.Demo, 0)
+      expect(year.changes.Demo).toBe(demo)
+    }
+    const total = Object.values(stats.days).reduce((sum, count) => sum + count, 0)
+    const changes = stats.years.reduce(
+      (sum, year) => sum + year.changes.Solly + year.changes.Demo,
+      0
+    )
+    expect(total).toBe(changes)
+  })
+})
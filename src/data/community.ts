@@ -0,0 +1,91 @@
+import { resolvePlayerKey, type PlayerDirectory } from './identity.ts'
+import { buildZoneTimelines } from './timeline.ts'
+import {
+  EVIDENCE_KIND,
+  type CommunityPeriod,
+  type CommunityStats,
+  type DataFile,
+  type EvidenceKind
+} from './types.ts'
+
+type PeriodTally = Omit<CommunityPeriod, 'holders'> & {
+  holders: Record<'Solly' | 'Demo' | 'All', Set<string>>
+}
+
+/** WR activity across every map, zone and class, bucketed by month, year and day. */
+export function buildCommunityStats(
+  files: DataFile[],
+  directory?: PlayerDirectory | null
+): CommunityStats {
+  const months = new Map<string, PeriodTally>()
+  const years = new Map<string, PeriodTally>()
+  const days: Record<string, number> = {}
+  const kinds = Object.values(EVIDENCE_KIND) as string[]
+
+  for (const file of files) {
+    for (const { timeline } of buildZoneTimelines(file.rows)) {
+      for (const point of timeline) {
+        if (!point.date) continue
+        const key = resolvePlayerKey(point, directory)
+        const evidence = kinds.includes(point.evidence) ? (point.evidence as EvidenceKind) : null
+        for (const tally of [
+          getTally(months, point.date.slice(0, 7)),
+          getTally(years, point.date.slice(0, 4))
+        ]) {
+          tally.changes[file.className]++
+          if (evidence) tally.evidence[evidence]++
+          if (key) {
+            tally.holders[file.className].add(key)
+            tally.holders.All.add(key)
+          }
+        }
+        days[point.date] = (days[point.date] ?? 0) + 1
+      }
+    }
+  }
+
+  // Fill quiet months so charts keep an even time axis.
+  const monthKeys = [...months.keys()].sort()
+  const first = monthKeys[0]
+  const last = monthKeys[monthKeys.length - 1]
+  if (first && last) {
+    let [year, month] = first.split('-').map(Number)
+    for (;;) {
+      const period = `${year}-${String(month).padStart(2, '0')}`
+      if (period > last) break
+      getTally(months, period)
+      month = (month % 12) + 1
+      if (month === 1) year++
+    }
+  }
+
+  return { months: finish(months), years: finish(years), days }
+}
+
+function getTally(tallies: Map<string, PeriodTally>, period: string) {
+  let tally = tallies.get(period)
+  if (!tally) {
+    tally = {
+      period,
+      changes: { Solly: 0, Demo: 0 },
+      holders: { Solly: new Set(), Demo: new Set(), All: new Set() },
+      evidence: {
+        [EVIDENCE_KIND.Record]: 0,
+        [EVIDENCE_KIND.Announcement]: 0,
+        [EVIDENCE_KIND.Command]: 0,
+        [EVIDENCE_KIND.Observed]: 0
+      }
+    }
+    tallies.set(period, tally)
+  }
+  return tally
+}
+
+function finish(tallies: Map<string, PeriodTally>): CommunityPeriod[] {
+  return [...tallies.values()]
+    .sort((a, b) => a.period.localeCompare(b.period))
+    .map(({ holders, ...tally }) => ({
+      ...tally,
+      holders: { Solly: holders.Solly.size, Demo: holders.Demo.size, All: holders.All.size }
+    }))
+}
@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest'
+import { readFixture } from '../test/fixtures.ts'
+import { formatCsv, parseCsv, parseCsvRows } from './csv.ts'
+import { CSV_HEADERS } from './types.ts'
+
+describe('parseCsvRows', () => {
+  it('handles quoted commas, escaped quotes and newlines', () => {
+    expect(parseCsvRows('a,b\r\n"x, y","say ""hi""\nthere"\n')).toEqual([
+      ['a', 'b'],
+      ['x, y', 'say "hi"\nthere']
+    ])
+  })
+
+  it('skips blank lines and keeps a last line without a newline', () => {
+    expect(parseCsvRows('a,b\n\n , \n1,2')).toEqual([
+      ['a', 'b'],
+      ['1', '2']
+    ])
+  })
+})
+
+describe('parseCsv', () => {
+  it('maps a shipped file onto CsvRow by header', () => {
+    const text = readFixture('wr_history_jump_bomb_Demo.csv')
+    const rows = parseCsv(text)
+    expect(parseCsvRows(text)[0]).toEqual([...CSV_HEADERS])
+    expect(rows).toHaveLength(29)
+    expect(rows[0]).toMatchObject({
+      date: '2014-08-02',
+      record_time: '04:51.16',
+      player: 'alle',
+      map: 'jump_bomb',
+      segment: 'Map',
+      evidence: 'record',
+      split: '-00:18.38',
+      steam_id: 'STEAM_0:0:40358892',
+      steam_candidates: ''
+    })
+  })
+
+  it('fills missing trailing cells with empty strings', () => {
+    expect(parseCsv('date,player,map\n2020-01-01,alle')).toEqual([
+      { date: '2020-01-01', player: 'alle', map: '' }
+    ])
+  })
+
+  it('returns no rows for a header-only file', () => {
+    expect(parseCsv('date,player\n')).toEqual([])
+  })
+
+  it('reads back what formatCsv writes', () => {
+    const rows = [{ date: '2020-01-01', player: 'a "quoted", name' }]
+    expect(parseCsv(formatCsv(['date', 'player'], rows))).toEqual(rows)
+  })
+})
@@ -0,0 +1,91 @@
+import type { CsvRow } from './types.ts'
+
+export function parseCsv(text: string): CsvRow[] {
+  const rows = parseCsvRows(text)
+  if (rows.length <= 1) return []
+
+  const headers = rows[0]
+  return rows.slice(1).map((cells) => {
+    const row: Record<string, string> = {}
+    headers.forEach((header, index) => {
+      row[header] = cells[index] ?? ''
+    })
+    return row as CsvRow
+  })
+}
+
+export function parseCsvRows(text: string): string[][] {
+  // Minimal RFC4180-ish CSV parser.
+  // We need proper handling of quoted fields (commas/newlines) without taking on a CSV dependency.
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ''
+  let inQuotes = false
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i]
+
+    if (inQuotes) {
+      if (ch === '"') {
+        if (text[i + 1] === '"') {
+          field += '"'
+          i++
+          continue
+        }
+        inQuotes = false
+        continue
+      }
+      field += ch
+      continue
+    }
+
+    if (ch === '"') {
+      inQuotes = true
+      continue
+    }
+
+    if (ch === ',') {
+      row.push(field)
+      field = ''
+      continue
+    }
+
+    if (ch === '\r') {
+      continue
+    }
+
+    if (ch === '\n') {
+      row.push(field)
+      field = ''
+      if (row.some((cell) => cell.trim().length > 0)) {
+        rows.push(row)
+      }
+      row = []
+      continue
+    }
+
+    field += ch
+  }
+
+  if (inQuotes) {
+    inQuotes = false
+  }
+
+  if (field.length > 0 || row.length > 0) {
+    row.push(field)
+    if (row.some((cell) => cell.trim().length > 0)) {
+      rows.push(row)
+    }
+  }
+
+  return rows
+}
+
+export function formatCsv(headers: readonly string[], rows: Array<Record<string, unknown>>) {
+  const escape = (value: unknown) => {
+    const text = value == null ? '' : String(value)
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+  }
+  const lines = [headers, ...rows.map((row) => headers.map((header) => row[header]))]
+  return `${lines.map((cells) => cells.map(escape).join(',')).join('\n')}\n`
+}
@@ -0,0 +1,9 @@
+/**
+ * Whether `value` is a real `YYYY-MM-DD` day. Round-trips through Date so `2023-02-31` is rejected
+ * rather than rolled over to March.
+ */
+export function isIsoDate(value: string) {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) return false
+  const date = new Date(`${value}T00:00:00Z`)
+  return !Number.isNaN(date.getTime()) && date.toISOString().slice(0, 10) === value
+}
@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest'
+import { loadFixture } from '../test/fixtures.ts'
+import { diffSnapshots, type Snapshot } from './diff.ts'
+import { EVIDENCE_KIND, type CsvRow } from './types.ts'
+
+const BOMB = 'wr_history_jump_bomb_Demo.csv'
+const HOLERS = 'wr_history_jump_4holers_Solly.csv'
+const bomb = loadFixture(BOMB)
+const holers = loadFixture(HOLERS)
+
+const snapshot = (files: Record<string, CsvRow[]>): Snapshot => new Map(Object.entries(files))
+
+describe('diffSnapshots', () => {
+  it('reports nothing for identical snapshots', () => {
+    const diff = diffSnapshots(snapshot({ [BOMB]: bomb }), snapshot({ [BOMB]: [...bomb] }))
+    expect(Object.values(diff).every((items) => items.length === 0)).toBe(true)
+  })
+
+  it('reports added and removed maps and classes', () => {
+    const diff = diffSnapshots(
+      snapshot({ [BOMB]: bomb }),
+      snapshot({ [HOLERS]: holers, 'wr_history_jump_bomb_Solly.csv': bomb })
+    )
+    expect(diff.mapsAdded).toEqual(['jump_4holers'])
+    expect(diff.mapsRemoved).toEqual([])
+    expect(diff.classesAdded).toEqual([{ map: 'jump_bomb', className: 'Solly' }])
+    expect(diff.classesRemoved).toEqual([{ map: 'jump_bomb', className: 'Demo' }])
+  })
+
+  it('splits added rows into new WRs and rows the timeline hides', () => {
+    const faster = { ...bomb[0], date: '2025-01-01', record_time: '02:40.00', player: 'new' }
+    const slower = {
+      ...bomb[0],
+      date: '2025-01-02',
+      record_time: '05:00.00',
+      evidence: EVIDENCE_KIND.Command,
+      demo_id: ''
+    }
+    const diff = diffSnapshots(
+      snapshot({ [BOMB]: bomb }),
+      snapshot({ [BOMB]: [...bomb, faster, slower] })
+    )
+    expect(diff.newRecords).toMatchObject([
+      { map: 'jump_bomb', className: 'Demo', zone: 'Map', record_time: '02:40.00', player: 'new' }
+    ])
+    expect(diff.addedRows).toMatchObject([{ date: '2025-01-02', record_time: '05:00.00' }])
+  })
+
+  it('reports removed rows, newest first', () => {
+    const diff = diffSnapshots(snapshot({ [BOMB]: bomb }), snapshot({ [BOMB]: bomb.slice(2) }))
+    expect(diff.removedRows.map((row) => row.date)).toEqual(['2014-08-09', '2014-08-02'])
+  })
+
+  it('matches corrected rows by segment, date and time', () => {
+    const after = bomb.map((row, index) =>
+      index === 0
+        ? { ...row, evidence: EVIDENCE_KIND.Announcement, evidence_source: 'irc' }
+        : index === 1
+          ? { ...row, steam_id64: '', steam_id: '' }
+          : row
+    )
+    const diff = diffSnapshots(snapshot({ [BOMB]: bomb }), snapshot({ [BOMB]: after }))
+    expect(diff.evidenceChanges).toMatchObject([
+      { before: { evidence: 'record' }, after: { evidence: 'announcement' } }
+    ])
+    expect(diff.identityChanges).toMatchObject([
+      { before: { player: 'cody' }, after: { player: 'cody' } }
+    ])
+    expect(diff.newRecords).toEqual([])
+    expect(diff.removedRows).toEqual([])
+  })
+})
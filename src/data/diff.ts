@@ -0,0 +1,176 @@
+import { parseDataFileName } from './files.ts'
+import { getPlayerKey } from './steam.ts'
+import { buildTimeline } from './timeline.ts'
+import { SEGMENT_LABEL, type CsvRow } from './types.ts'
+import { getZoneInfo, groupRowsByZone } from './zones.ts'
+
+/** CSV rows keyed by data file name (`wr_history_<map>_<Class>.csv`). */
+export type Snapshot = Map<string, CsvRow[]>
+
+export type DiffRow = {
+  map: string
+  className: string
+  zone: string
+  date: string
+  record_time: string
+  player: string
+  evidence: string
+  evidence_source: string
+}
+
+export type DiffChange = {
+  before: DiffRow
+  after: DiffRow
+}
+
+export type SnapshotDiff = {
+  mapsAdded: string[]
+  mapsRemoved: string[]
+  classesAdded: Array<{ map: string; className: string }>
+  classesRemoved: Array<{ map: string; className: string }>
+  /** Added rows that are points on the new wipe-aware timeline, i.e. what users see as new WRs. */
+  newRecords: DiffRow[]
+  /** Added rows the timeline does not show (slower than the WR at the time). */
+  addedRows: DiffRow[]
+  removedRows: DiffRow[]
+  evidenceChanges: DiffChange[]
+  identityChanges: DiffChange[]
+}
+
+type FileInfo = { map: string; className: string }
+
+export function diffSnapshots(before: Snapshot, after: Snapshot): SnapshotDiff {
+  const diff: SnapshotDiff = {
+    mapsAdded: [],
+    mapsRemoved: [],
+    classesAdded: [],
+    classesRemoved: [],
+    newRecords: [],
+    addedRows: [],
+    removedRows: [],
+    evidenceChanges: [],
+    identityChanges: []
+  }
+
+  const beforeMaps = groupFilesByMap(before)
+  const afterMaps = groupFilesByMap(after)
+  for (const map of afterMaps.keys()) {
+    if (!beforeMaps.has(map)) diff.mapsAdded.push(map)
+  }
+  for (const map of beforeMaps.keys()) {
+    if (!afterMaps.has(map)) diff.mapsRemoved.push(map)
+  }
+  for (const [map, classes] of afterMaps) {
+    const previous = beforeMaps.get(map)
+    if (!previous) continue
+    for (const className of classes) {
+      if (!previous.has(className)) diff.classesAdded.push({ map, className })
+    }
+    for (const className of previous) {
+      if (!classes.has(className)) diff.classesRemoved.push({ map, className })
+    }
+  }
+
+  const files = new Set([...before.keys(), ...after.keys()])
+  for (const file of Array.from(files).sort()) {
+    const info = getFileInfo(file)
+    const beforeRows = before.get(file) ?? []
+    const afterRows = after.get(file) ?? []
+    const timelineRows = getTimelineRows(afterRows)
+
+    const beforeByKey = groupRowsByRecord(beforeRows)
+    const afterByKey = groupRowsByRecord(afterRows)
+
+    for (const [key, rows] of afterByKey) {
+      const previous = beforeByKey.get(key) ?? []
+      rows.forEach((row, index) => {
+        const match = previous[index]
+        if (!match) {
+          const target = timelineRows.has(row) ? diff.newRecords : diff.addedRows
+          target.push(toDiffRow(info, row))
+          return
+        }
+        if (match.evidence !== row.evidence || match.evidence_source !== row.evidence_source) {
+          diff.evidenceChanges.push({ before: toDiffRow(info, match), after: toDiffRow(info, row) })
+        }
+        if (!sameIdentity(match, row)) {
+          diff.identityChanges.push({ before: toDiffRow(info, match), after: toDiffRow(info, row) })
+        }
+      })
+    }
+
+    for (const [key, rows] of beforeByKey) {
+      const next = afterByKey.get(key) ?? []
+      for (const row of rows.slice(next.length)) {
+        diff.removedRows.push(toDiffRow(info, row))
+      }
+    }
+  }
+
+  const byDate = (a: DiffRow, b: DiffRow) =>
+    b.date.localeCompare(a.date) || a.map.localeCompare(b.map)
+  diff.newRecords.sort(byDate)
+  diff.addedRows.sort(byDate)
+  diff.removedRows.sort(byDate)
+  return diff
+}
+
+function getTimelineRows(rows: CsvRow[]) {
+  const timelineRows = new Set<CsvRow>()
+  for (const group of groupRowsByZone(rows)) {
+    for (const point of buildTimeline(group.rows)) timelineRows.add(group.rows[point.rowIndex])
+  }
+  return timelineRows
+}
+
+function groupFilesByMap(snapshot: Snapshot) {
+  const maps = new Map<string, Set<string>>()
+  for (const file of snapshot.keys()) {
+    const { map, className } = getFileInfo(file)
+    if (!maps.has(map)) maps.set(map, new Set())
+    maps.get(map)!.add(className)
+  }
+  return maps
+}
+
+function getFileInfo(file: string): FileInfo {
+  const parsed = parseDataFileName(file)
+  return parsed ? { map: parsed.map, className: parsed.klass } : { map: file, className: '' }
+}
+
+function groupRowsByRecord(rows: CsvRow[]) {
+  // Segment, date and time identify a record even when its evidence or holder was corrected.
+  const groups = new Map<string, CsvRow[]>()
+  for (const row of rows) {
+    const key = `${row.segment}|${row.date}|${row.record_time}`
+    if (!groups.has(key)) groups.set(key, [])
+    groups.get(key)!.push(row)
+  }
+  for (const group of groups.values()) {
+    group.sort((a, b) =>
+      `${a.evidence}|${a.evidence_source}`.localeCompare(`${b.evidence}|${b.evidence_source}`)
+    )
+  }
+  return groups
+}
+
+function sameIdentity(left: CsvRow, right: CsvRow) {
+  return (
+    left.player === right.player &&
+    getPlayerKey(left) === getPlayerKey(right) &&
+    left.steam_candidates === right.steam_candidates
+  )
+}
+
+function toDiffRow(info: FileInfo, row: CsvRow): DiffRow {
+  return {
+    map: info.map,
+    className: info.className,
+    zone: getZoneInfo(row.segment)?.label ?? SEGMENT_LABEL.Map,
+    date: row.date,
+    record_time: row.record_time,
+    player: row.player,
+    evidence: row.evidence,
+    evidence_source: row.evidence_source
+  }
+}
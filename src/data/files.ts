@@ -0,0 +1,18 @@
+const DATA_FILE_PREFIX = 'wr_history_'
+const DATA_FILE_CLASSES = ['Demo', 'Solly'] as const
+
+/** Splits `wr_history_<map>_<Class>.csv` into its map and class. */
+export function parseDataFileName(file: string) {
+  if (!file.startsWith(DATA_FILE_PREFIX)) return null
+  for (const klass of DATA_FILE_CLASSES) {
+    const suffix = `_${klass}.csv`
+    if (file.endsWith(suffix)) {
+      return { map: file.slice(DATA_FILE_PREFIX.length, -suffix.length), klass }
+    }
+  }
+  return null
+}
+
+export function getDataFileName(map: string, klass: 'Solly' | 'Demo') {
+  return `${DATA_FILE_PREFIX}${map}_${klass}.csv`
+}
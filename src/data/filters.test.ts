@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest'
+import { loadFixture } from '../test/fixtures.ts'
+import { EMPTY_TIMELINE_FILTER, filterTimeline, isTimelineFilterActive } from './filters.ts'
+import { buildPlayerDirectory } from './identity.ts'
+import { buildTimeline } from './timeline.ts'
+import { EVIDENCE_KIND } from './types.ts'
+
+const rows = loadFixture('wr_history_jump_bomb_Demo.csv')
+const timeline = buildTimeline(rows, { segment: 'Map' })
+const directory = buildPlayerDirectory(rows)
+const filter = (patch: Partial<typeof EMPTY_TIMELINE_FILTER>, withDirectory = true) =>
+  filterTimeline(timeline, { ...EMPTY_TIMELINE_FILTER, ...patch }, withDirectory ? directory : null)
+
+describe('filterTimeline', () => {
+  it('returns the timeline itself when nothing is set', () => {
+    expect(isTimelineFilterActive(EMPTY_TIMELINE_FILTER)).toBe(false)
+    expect(filterTimeline(timeline, EMPTY_TIMELINE_FILTER)).toBe(timeline)
+    expect(isTimelineFilterActive({ ...EMPTY_TIMELINE_FILTER, player: '  ' })).toBe(false)
+  })
+
+  it('keeps dates within inclusive bounds', () => {
+    const points = filter({ from: '2014-08-09', to: '2015-06-21' })
+    expect(points.map((point) => point.date)).toEqual([
+      '2014-08-09',
+      '2014-10-16',
+      '2014-10-19',
+      '2015-06-21'
+    ])
+  })
+
+  it('filters by evidence and hides wiped times', () => {
+    expect(filter({ evidence: [EVIDENCE_KIND.Announcement] })).toEqual([])
+    expect(filter({ hideWiped: true }).some((point) => point.wiped)).toBe(false)
+    expect(filter({ hideWiped: true })).toHaveLength(timeline.length - 1)
+  })
+
+  it('matches a player under every name tied to their Steam ID', () => {
+    // Soup Can, Soup -tt and soup -tt share one Steam ID.
+    const names = (player: string, withDirectory?: boolean) =>
+      filter({ player }, withDirectory).map((point) => point.player)
+    expect(names('soup -tt')).toEqual(['Soup Can', 'Soup -tt', 'Soup -tt', 'soup -tt'])
+    expect(names('soup -tt', false)).toEqual(['Soup -tt', 'Soup -tt', 'soup -tt'])
+    expect(names('CODY')).toEqual(['cody', 'my feelings 4 u'])
+  })
+})
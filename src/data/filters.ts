@@ -0,0 +1,66 @@
+import { resolvePlayer, type PlayerDirectory } from './identity.ts'
+import type { EvidenceKind, TimelinePoint } from './types.ts'
+
+export type TimelineFilter = {
+  /** Inclusive `YYYY-MM-DD` bounds; `null` leaves that side open. */
+  from: string | null
+  to: string | null
+  /** Evidence kinds to keep; `null` keeps every kind. */
+  evidence: EvidenceKind[] | null
+  hideWiped: boolean
+  /** Case-insensitive substring of any name the player has used. */
+  player: string
+}
+
+export const EMPTY_TIMELINE_FILTER: TimelineFilter = {
+  from: null,
+  to: null,
+  evidence: null,
+  hideWiped: false,
+  player: ''
+}
+
+export function isTimelineFilterActive(filter: TimelineFilter) {
+  return (
+    filter.from != null ||
+    filter.to != null ||
+    filter.evidence != null ||
+    filter.hideWiped ||
+    filter.player.trim() !== ''
+  )
+}
+
+/**
+ * Narrows an already built timeline. Filtering happens after the wipe logic, so `wiped` flags and
+ * the current WR still reflect the full history. With a `directory`, a player matches under every
+ * name tied to their Steam ID.
+ */
+export function filterTimeline<T extends TimelinePoint>(
+  points: T[],
+  filter: TimelineFilter,
+  directory?: PlayerDirectory | null
+): T[] {
+  if (!isTimelineFilterActive(filter)) return points
+  const player = filter.player.trim().toLowerCase()
+  return points.filter((point) => {
+    if (filter.from && point.date < filter.from) return false
+    if (filter.to && point.date > filter.to) return false
+    if (filter.evidence && !filter.evidence.includes(point.evidence)) return false
+    if (filter.hideWiped && point.wiped) return false
+    if (player && !getPlayerNames(point, directory).some((name) => name.includes(player))) {
+      return false
+    }
+    return true
+  })
+}
+
+function getPlayerNames(point: TimelinePoint, directory?: PlayerDirectory | null) {
+  const names = [point.player]
+  const resolved = resolvePlayer(point, directory)
+  if (resolved) names.push(resolved.name)
+  const steamId64 = resolved?.steamId64
+  if (steamId64 && directory && Object.hasOwn(directory.players, steamId64)) {
+    names.push(...directory.players[steamId64])
+  }
+  return names.map((name) => name.toLowerCase())
+}
@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest'
+import { loadFixture } from '../test/fixtures.ts'
+import { buildHeadToHead } from './headToHead.ts'
+import type { DataFile } from './types.ts'
+
+const ALLE = '76561198040983512'
+const CODY = '76561198078488228'
+const SOUP = '76561198029285343'
+const VICE = '76561198366368448'
+const files: DataFile[] = [
+  { map: 'jump_bomb', className: 'Demo', rows: loadFixture('wr_history_jump_bomb_Demo.csv') }
+]
+
+describe('buildHeadToHead', () => {
+  it('records who took the WR from whom', () => {
+    const { records } = buildHeadToHead(files, [ALLE, CODY])
+    expect(
+      records.map((record) => [record.player, record.point.date, record.takenFrom?.player ?? null])
+    ).toEqual([
+      [0, '2014-08-02', null],
+      [1, '2014-08-09', 'alle'],
+      [0, '2014-10-16', 'cody'],
+      [0, '2014-10-16', null]
+    ])
+  })
+
+  it('leaves wiped times out of the counts', () => {
+    // `my feelings 4 u` shares cody's Steam ID, but that record was wiped.
+    const { players } = buildHeadToHead(files, [ALLE, CODY])
+    expect(players.map((player) => [player.name, player.recordsSet])).toEqual([
+      ['alle -tt', 3],
+      ['cody', 1]
+    ])
+  })
+
+  it('lists segments both players held and who holds them now', () => {
+    const { players, shared } = buildHeadToHead(files, [SOUP, VICE])
+    expect(shared.map((segment) => [segment.zone?.id ?? null, segment.records, segment.holder]))
+      .toEqual([
+        [null, [4, 2], 0],
+        ['bonus-3', [4, 1], null]
+      ])
+    expect(players[0].current.Demo).toEqual({ maps: 1, zones: 0 })
+    expect(players[1].current.Demo).toEqual({ maps: 0, zones: 0 })
+  })
+
+  it('finds no rivalry between a player and themself', () => {
+    const { players, shared, records } = buildHeadToHead(files, [SOUP, SOUP])
+    expect(players[1].recordsSet).toBe(0)
+    expect(shared).toEqual([])
+    expect(records.every((record) => record.player === 0 && record.takenFrom == null)).toBe(true)
+  })
+})
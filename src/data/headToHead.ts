@@ -0,0 +1,79 @@
+import { resolvePlayer, type PlayerDirectory } from './identity.ts'
+import { buildZoneTimelines } from './timeline.ts'
+import type {
+  DataFile,
+  HeadToHead,
+  RivalPlayer,
+  RivalRecord,
+  RivalSegment,
+  TimelinePoint
+} from './types.ts'
+import { compareZones } from './zones.ts'
+
+/**
+ * Compares two players across every map and zone. Wiped times are left out, so a record is taken
+ * from the other player only when it directly replaced one of theirs that stood.
+ */
+export function buildHeadToHead(
+  files: DataFile[],
+  keys: [string, string],
+  directory?: PlayerDirectory | null
+): HeadToHead {
+  const players = keys.map(
+    (key): RivalPlayer => ({
+      key,
+      name: key.replace(/^name:/, ''),
+      current: { Solly: { maps: 0, zones: 0 }, Demo: { maps: 0, zones: 0 } },
+      recordsSet: 0
+    })
+  ) as [RivalPlayer, RivalPlayer]
+  const nameDates = ['', '']
+  const shared: RivalSegment[] = []
+  const records: RivalRecord[] = []
+
+  for (const file of files) {
+    for (const { zone, timeline } of buildZoneTimelines(file.rows)) {
+      const counts: [number, number] = [0, 0]
+      let previous: { point: TimelinePoint; player: 0 | 1 | null } | null = null
+      for (const point of timeline) {
+        if (point.wiped) continue
+        const resolved = resolvePlayer(point, directory)
+        const index = resolved ? keys.indexOf(resolved.key) : -1
+        const player = index === 0 || index === 1 ? index : null
+        if (resolved && player != null) {
+          counts[player]++
+          players[player].recordsSet++
+          if (point.date >= nameDates[player]) {
+            players[player].name = resolved.name
+            nameDates[player] = point.date
+          }
+          const takenFrom =
+            previous?.player != null && previous.player !== player ? previous.point : null
+          records.push({ map: file.map, className: file.className, zone, player, point, takenFrom })
+        }
+        previous = { point, player }
+      }
+      if (previous?.player != null) {
+        players[previous.player].current[file.className][zone ? 'zones' : 'maps']++
+      }
+      if (counts[0] > 0 && counts[1] > 0) {
+        shared.push({
+          map: file.map,
+          className: file.className,
+          zone,
+          records: counts,
+          holder: previous?.player ?? null
+        })
+      }
+    }
+  }
+
+  shared.sort((a, b) => {
+    if (a.map !== b.map) return a.map.localeCompare(b.map)
+    if (a.className !== b.className) return a.className.localeCompare(b.className)
+    if (!a.zone || !b.zone) return a.zone ? 1 : b.zone ? -1 : 0
+    return compareZones(a.zone, b.zone)
+  })
+  records.sort((a, b) => a.point.dateValue - b.point.dateValue || a.map.localeCompare(b.map))
+  return { players, shared, records }
+}
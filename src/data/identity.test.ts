@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest'
+import { loadFixture } from '../test/fixtures.ts'
+import { buildPlayerDirectory, resolvePlayer, resolvePlayerKey } from './identity.ts'
+
+const ALLE = '76561198040983512'
+const CODY = '76561198078488228'
+const BLANK = { date: '2020-01-01', player: '', steam_id64: '', steam_id: '', steam_candidates: '' }
+
+const row = (player: string, fields: Partial<typeof BLANK> = {}) => ({
+  ...BLANK,
+  player,
+  ...fields
+})
+
+describe('buildPlayerDirectory', () => {
+  it('lists every name used with a Steam ID, most recent first', () => {
+    const directory = buildPlayerDirectory(loadFixture('wr_history_jump_bomb_Demo.csv'))
+    // cody and "my feelings 4 u" share a Steam ID in the data.
+    expect(directory.players[CODY]).toEqual(['my feelings 4 u', 'cody'])
+    expect(directory.players[ALLE]).toEqual(['alle -tt', 'alle'])
+    expect(directory.names['alle -tt']).toBe(ALLE)
+  })
+
+  it('ties an ID-less name to the only Steam ID it was seen with', () => {
+    const directory = buildPlayerDirectory([
+      row('alle', { steam_id: 'STEAM_0:0:40358892' }),
+      row('Alle', { date: '2021-01-01' })
+    ])
+    expect(directory.names).toEqual({ alle: ALLE })
+    expect(resolvePlayer(row('ALLE'), directory)).toEqual({
+      key: ALLE,
+      name: 'Alle',
+      steamId64: ALLE
+    })
+  })
+
+  it('keeps a name used by two Steam IDs split', () => {
+    const directory = buildPlayerDirectory([
+      row('soup', { steam_id64: ALLE }),
+      row('soup', { steam_id64: CODY }),
+      row('soup')
+    ])
+    expect(directory.names).toEqual({})
+    expect(resolvePlayerKey(row('soup'), directory)).toBe('name:soup')
+    expect(resolvePlayerKey(row('soup', { steam_id64: CODY }), directory)).toBe(CODY)
+  })
+
+  it('keeps a name split when a row lists several candidates for it', () => {
+    const candidates = `vice|${ALLE}|;vice|${CODY}|`
+    const directory = buildPlayerDirectory([
+      row('vice', { steam_id64: ALLE }),
+      row('vice', { steam_candidates: candidates })
+    ])
+    expect(directory.names).toEqual({})
+    expect(resolvePlayerKey(row('vice'), directory)).toBe('name:vice')
+  })
+
+  it('lets an override beat the inferred link', () => {
+    const rows = [row('soup', { steam_id64: ALLE }), row('soup')]
+    const directory = buildPlayerDirectory(rows, [
+      { name: ' Soup ', steamId64: '[U:1:118222500]', note: 'same player' }
+    ])
+    expect(directory.names).toEqual({ soup: CODY })
+    expect(resolvePlayerKey(row('soup'), directory)).toBe(CODY)
+    // A row's own Steam ID still wins over any name link.
+    expect(resolvePlayerKey(rows[0], directory)).toBe(ALLE)
+    expect(directory.players[CODY]).toEqual(['soup'])
+  })
+
+  it('ignores overrides without a readable Steam ID', () => {
+    const directory = buildPlayerDirectory([row('soup')], [{ name: 'soup', steamId64: 'nope' }])
+    expect(directory).toEqual({ players: {}, names: {} })
+  })
+})
+
+describe('resolvePlayer', () => {
+  it('falls back to a lone candidate, then to the name', () => {
+    expect(resolvePlayerKey(row('vice', { steam_candidates: `vice|${CODY}|` }))).toBe(CODY)
+    expect(resolvePlayer(row(' vice '))).toEqual({
+      key: 'name:vice',
+      name: 'vice',
+      steamId64: null
+    })
+    expect(resolvePlayer(row('  '))).toBeNull()
+  })
+
+  it('does not resolve names through the prototype chain', () => {
+    const directory = buildPlayerDirectory([row('alle', { steam_id64: ALLE })])
+    expect(resolvePlayerKey(row('constructor'), directory)).toBe('name:constructor')
+    expect(resolvePlayerKey(row('__proto__'), directory)).toBe('name:__proto__')
+  })
+})
@@ -0,0 +1,133 @@
+import { parseSteamCandidates, parseSteamId64 } from './steam.ts'
+import type { CsvRow, PlayerRow } from './types.ts'
+
+/**
+ * One entry of `public/data/player-overrides.json`: rows shown under `name` with no Steam ID of
+ * their own belong to `steamId64`. Any Steam ID form is accepted.
+ */
+export type PlayerOverride = {
+  name: string
+  steamId64: string
+  /** Why the override is safe, for whoever reviews the file next. */
+  note?: string
+}
+
+/** Who is who across the data set, written into `index.json` by `scripts/build-index.mjs`. */
+export type PlayerDirectory = {
+  /** Steam ID64 → every name used with it, most recent first. */
+  players: Record<string, string[]>
+  /** Lower-cased name → Steam ID64, for rows that carry no Steam ID. */
+  names: Record<string, string>
+}
+
+export type ResolvedPlayer = {
+  /** A Steam ID64, or `name:<name>` when the row could not be tied to one. */
+  key: string
+  /** The name the player goes by today. */
+  name: string
+  steamId64: string | null
+}
+
+/**
+ * Ties every name to a Steam ID where the data allows it. A name seen with exactly one Steam ID
+ * resolves to it, unless a row lists several `steam_candidates` for that name; overrides win over
+ * both. Display names are the most recently used ones.
+ */
+export function buildPlayerDirectory(
+  rows: Array<Pick<CsvRow, 'date'> & PlayerRow>,
+  overrides: PlayerOverride[] = []
+): PlayerDirectory {
+  const nameDates = new Map<string, Map<string, string>>()
+  const nameIds = new Map<string, Set<string>>()
+  const ambiguous = new Set<string>()
+  const unidentified: typeof rows = []
+  const addName = (steamId64: string, name: string, date: string) => {
+    const dates = nameDates.get(steamId64) ?? new Map<string, string>()
+    if ((dates.get(name) ?? '') <= date) dates.set(name, date)
+    nameDates.set(steamId64, dates)
+  }
+
+  for (const row of rows) {
+    const name = row.player.trim()
+    if (!name) continue
+    const steamId64 = getSteamId64(row)
+    if (!steamId64) {
+      if (getCandidateSteamIds(row).length > 1) ambiguous.add(name.toLowerCase())
+      unidentified.push(row)
+      continue
+    }
+    addName(steamId64, name, row.date)
+    const ids = nameIds.get(name.toLowerCase()) ?? new Set<string>()
+    ids.add(steamId64)
+    nameIds.set(name.toLowerCase(), ids)
+  }
+
+  const names = new Map<string, string>()
+  for (const [name, ids] of nameIds) {
+    if (ids.size === 1 && !ambiguous.has(name)) names.set(name, [...ids][0])
+  }
+  for (const override of overrides) {
+    const steamId64 = parseSteamId64(override.steamId64)
+    if (steamId64) names.set(override.name.trim().toLowerCase(), steamId64)
+  }
+
+  // Sorted so unchanged data produces an identical index.
+  const directory: PlayerDirectory = { players: {}, names: {} }
+  for (const name of [...names.keys()].sort()) {
+    directory.names[name] = names.get(name) ?? ''
+  }
+  for (const row of unidentified) {
+    const steamId64 = resolvePlayer(row, directory)?.steamId64
+    if (steamId64) addName(steamId64, row.player.trim(), row.date)
+  }
+  for (const steamId64 of [...nameDates.keys()].sort()) {
+    directory.players[steamId64] = Array.from(nameDates.get(steamId64) ?? [])
+      .sort((a, b) => b[1].localeCompare(a[1]) || a[0].localeCompare(b[0]))
+      .map(([name]) => name)
+  }
+  return directory
+}
+
+/**
+ * The player behind a row: its own Steam ID, else the directory's match for its name, else the
+ * only Steam ID among its `steam_candidates`. Without a directory only the row itself is used.
+ */
+export function resolvePlayer(
+  row: PlayerRow,
+  directory?: PlayerDirectory | null
+): ResolvedPlayer | null {
+  const name = (row.player ?? '').trim()
+  const steamId64 =
+    getSteamId64(row) ?? lookup(directory?.names, name.toLowerCase()) ?? getOnlyCandidate(row)
+  if (steamId64) {
+    const names = lookup(directory?.players, steamId64)
+    return { key: steamId64, name: names?.[0] ?? name, steamId64 }
+  }
+  return name ? { key: `name:${name}`, name, steamId64: null } : null
+}
+
+export function resolvePlayerKey(row: PlayerRow, directory?: PlayerDirectory | null) {
+  return resolvePlayer(row, directory)?.key ?? null
+}
+
+// Names come from the data; `constructor` must not find Object.prototype's.
+function lookup<T>(record: Record<string, T> | undefined, key: string) {
+  return record && Object.hasOwn(record, key) ? record[key] : null
+}
+
+function getSteamId64(row: PlayerRow) {
+  return parseSteamId64(row.steam_id64) ?? parseSteamId64(row.steam_id)
+}
+
+function getOnlyCandidate(row: PlayerRow) {
+  if (!row.steam_candidates) return null
+  const ids = getCandidateSteamIds(row)
+  return ids.length === 1 ? ids[0] : null
+}
+
+function getCandidateSteamIds(row: PlayerRow) {
+  const ids = parseSteamCandidates(row.steam_candidates)
+    .map((candidate) => parseSteamId64(candidate.steamId64) ?? parseSteamId64(candidate.steamId))
+    .filter((id): id is string => id != null)
+  return Array.from(new Set(ids))
+}
@@ -0,0 +1,72 @@
+export { buildCommunityStats } from './community.ts'
+export { formatCsv, parseCsv, parseCsvRows } from './csv.ts'
+export { isIsoDate } from './dates.ts'
+export { diffSnapshots } from './diff.ts'
+export type { DiffChange, DiffRow, Snapshot, SnapshotDiff } from './diff.ts'
+export { getDataFileName, parseDataFileName } from './files.ts'
+export { EMPTY_TIMELINE_FILTER, filterTimeline, isTimelineFilterActive } from './filters.ts'
+export type { TimelineFilter } from './filters.ts'
+export { buildHeadToHead } from './headToHead.ts'
+export { buildPlayerDirectory, resolvePlayer, resolvePlayerKey } from './identity.ts'
+export type { PlayerDirectory, PlayerOverride, ResolvedPlayer } from './identity.ts'
+export { buildLeaderboard, LEADERBOARD_METRIC, rankLeaderboard } from './leaderboards.ts'
+export type { LeaderboardMetric } from './leaderboards.ts'
+export { getMapType, MAP_TYPE, MAX_MAP_TIER } from './maps.ts'
+export type { MapMetadata, MapType } from './maps.ts'
+export { buildPlayerProfile } from './players.ts'
+export { EVIDENCE_STRENGTH, reconcileRows } from './reconcile.ts'
+export type { ReconciledRow } from './reconcile.ts'
+export { buildReigns, summarizeReigns } from './reigns.ts'
+export type { ReignPoint, ReignSummary } from './reigns.ts'
+export { decodeShard, encodeShard, SHARD_VERSION } from './shards.ts'
+export type { DataShard } from './shards.ts'
+export {
+  buildSteamProfileUrl,
+  getPlayerKey,
+  normalizeSteamId64,
+  parseSteamCandidates,
+  parseSteamId64
+} from './steam.ts'
+export { formatSeconds, parseSignedTimeToSeconds, parseTimeToSeconds } from './time.ts'
+export {
+  buildTimeline,
+  buildZoneTimelines,
+  explainWipes,
+  getWipeBoundaryTrigger,
+  isWipeBoundaryTrigger,
+  WIPE_TRIGGER,
+  withoutWipeInference
+} from './timeline.ts'
+export type { TimelineOptions, WipeExplanation, WipeTrigger } from './timeline.ts'
+export { CSV_HEADERS, EVIDENCE_KIND, SEGMENT_LABEL } from './types.ts'
+export type {
+  CommunityPeriod,
+  CommunityStats,
+  CsvRow,
+  DataFile,
+  DataPoint,
+  EvidenceKind,
+  EvidenceSource,
+  HeadToHead,
+  Leaderboard,
+  LeaderboardEntry,
+  LeaderboardRecord,
+  PlayerProfile,
+  PlayerRecord,
+  PlayerRow,
+  RecordHolder,
+  RivalPlayer,
+  RivalRecord,
+  RivalSegment,
+  SteamCandidate,
+  TimelinePoint,
+  WorldRecord,
+  WorldSnapshot,
+  ZoneInfo,
+  ZoneTimeline
+} from './types.ts'
+export { validateCsvFile, validateMapMetadata, validatePlayerOverrides } from './validate.ts'
+export type { ValidationIssue, ValidationSeverity } from './validate.ts'
+export { buildWorldSnapshot } from './world.ts'
+export type { WorldSnapshotOptions } from './world.ts'
+export { compareZones, getSegmentKey, getZoneInfo, groupRowsByZone } from './zones.ts'
@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest'
+import { loadFixture } from '../test/fixtures.ts'
+import {
+  buildLeaderboard,
+  LEADERBOARD_METRIC,
+  rankLeaderboard,
+  type LeaderboardMetric
+} from './leaderboards.ts'
+import type { DataFile } from './types.ts'
+
+const NOW = Date.UTC(2025, 0, 1)
+const files: DataFile[] = [
+  { map: 'jump_bomb', className: 'Demo', rows: loadFixture('wr_history_jump_bomb_Demo.csv') },
+  {
+    map: 'jump_4holers',
+    className: 'Solly',
+    rows: loadFixture('wr_history_jump_4holers_Solly.csv')
+  }
+]
+const { entries } = buildLeaderboard(files, 'Demo', null, NOW)
+const ranks = (metric: LeaderboardMetric) =>
+  rankLeaderboard(entries, metric).map(({ entry, rank }) => [rank, entry.name])
+
+describe('buildLeaderboard', () => {
+  it('only counts maps of the requested class', () => {
+    const records = entries.flatMap((entry) => entry.records)
+    expect(records.every((record) => record.className === 'Demo')).toBe(true)
+    expect(entries.map((entry) => entry.name)).not.toContain('Katto -rng')
+  })
+
+  it('merges a player by Steam ID under their newest name', () => {
+    const soup = entries.find((entry) => entry.key === '76561198029285343')
+    expect(soup).toMatchObject({ name: 'soup -tt', currentMapRecords: 1, recordsSet: 8 })
+    expect(entries.filter((entry) => entry.name.toLowerCase().startsWith('soup'))).toHaveLength(1)
+  })
+
+  it('leaves wiped times out', () => {
+    const players = entries.flatMap((entry) => entry.records.map((record) => record.point.player))
+    expect(players).not.toContain('my feelings 4 u')
+  })
+
+  it('lists the newest records first', () => {
+    const dates = entries[0].records.map((record) => record.point.dateValue)
+    expect(dates).toEqual([...dates].sort((a, b) => b - a))
+  })
+})
+
+describe('rankLeaderboard', () => {
+  it('only ranks players scoring on the metric', () => {
+    expect(ranks(LEADERBOARD_METRIC.MapRecords)).toEqual([[1, 'soup -tt']])
+    expect(ranks(LEADERBOARD_METRIC.ZoneRecords)).toEqual([
+      [1, 'Cryptical'],
+      [1, 'vashie'],
+      [1, 'song']
+    ])
+  })
+
+  it('shares ranks between ties and skips past them', () => {
+    expect(ranks(LEADERBOARD_METRIC.RecordsSet).slice(0, 8)).toEqual([
+      [1, 'soup -tt'],
+      [2, 'alle -tt'],
+      [2, 'vice'],
+      [4, 'Boshy'],
+      [4, 'Cryptical'],
+      [4, 'vashie'],
+      [4, 'Waldo'],
+      [8, 'big']
+    ])
+  })
+})
@@ -0,0 +1,110 @@
+import { buildReigns } from './reigns.ts'
+import { resolvePlayer, type PlayerDirectory } from './identity.ts'
+import { buildZoneTimelines } from './timeline.ts'
+import type { DataFile, Leaderboard, LeaderboardEntry } from './types.ts'
+
+export const LEADERBOARD_METRIC = {
+  MapRecords: 'map',
+  ZoneRecords: 'zone',
+  RecordsSet: 'set',
+  DaysHeld: 'days',
+  LongestReign: 'longest',
+} as const
+
+export type LeaderboardMetric = (typeof LEADERBOARD_METRIC)[keyof typeof LEADERBOARD_METRIC]
+
+/**
+ * Ranks every player of one class across all maps and zones. Players are merged by Steam ID, with
+ * `directory` tying ID-less rows to one, and wiped times count towards nothing.
+ */
+export function buildLeaderboard(
+  files: DataFile[],
+  className: 'Solly' | 'Demo',
+  directory?: PlayerDirectory | null,
+  now = Date.now()
+): Leaderboard {
+  const entries = new Map<string, LeaderboardEntry>()
+  const nameDates = new Map<string, string>()
+
+  for (const file of files) {
+    if (file.className !== className) continue
+    for (const { zone, timeline } of buildZoneTimelines(file.rows)) {
+      for (const point of buildReigns(timeline, now)) {
+        const player = resolvePlayer(point, directory)
+        if (!player || point.wiped) continue
+        const { key } = player
+        const entry = entries.get(key) ?? {
+          key,
+          name: player.name,
+          currentMapRecords: 0,
+          currentZoneRecords: 0,
+          recordsSet: 0,
+          daysHeld: 0,
+          longestReign: 0,
+          records: []
+        }
+        entry.recordsSet++
+        entry.daysHeld += point.reignDays
+        entry.longestReign = Math.max(entry.longestReign, point.reignDays)
+        if (point.reigning) {
+          if (zone) entry.currentZoneRecords++
+          else entry.currentMapRecords++
+        }
+        entry.records.push({ map: file.map, className: file.className, zone, point })
+        if (point.date >= (nameDates.get(key) ?? '')) {
+          entry.name = player.name
+          nameDates.set(key, point.date)
+        }
+        entries.set(key, entry)
+      }
+    }
+  }
+
+  for (const entry of entries.values()) {
+    entry.records.sort(
+      (a, b) => b.point.dateValue - a.point.dateValue || a.map.localeCompare(b.map)
+    )
+  }
+  return { className, entries: Array.from(entries.values()) }
+}
+
+/**
+ * Ranks entries by `metric`, ties broken by records set and then name. Players scoring zero are
+ * left out, so ranking by zone WRs lists holders only.
+ */
+export function rankLeaderboard(
+  entries: LeaderboardEntry[],
+  metric: LeaderboardMetric
+): Array<{ entry: LeaderboardEntry; rank: number }> {
+  const ranked = entries.filter((entry) => getLeaderboardValue(entry, metric) > 0)
+  ranked.sort(
+    (a, b) =>
+      getLeaderboardValue(b, metric) - getLeaderboardValue(a, metric) ||
+      b.recordsSet - a.recordsSet ||
+      a.name.localeCompare(b.name)
+  )
+  // Competition ranking: tied players share a rank and the next rank skips past them.
+  const rows: Array<{ entry: LeaderboardEntry; rank: number }> = []
+  ranked.forEach((entry, index) => {
+    const previous = rows[index - 1]
+    const value = getLeaderboardValue(entry, metric)
+    const tied = previous && getLeaderboardValue(previous.entry, metric) === value
+    rows.push({ entry, rank: tied ? previous.rank : index + 1 })
+  })
+  return rows
+}
+
+function getLeaderboardValue(entry: LeaderboardEntry, metric: LeaderboardMetric) {
+  switch (metric) {
+    case LEADERBOARD_METRIC.MapRecords:
+      return entry.currentMapRecords
+    case LEADERBOARD_METRIC.ZoneRecords:
+      return entry.currentZoneRecords
+    case LEADERBOARD_METRIC.RecordsSet:
+      return entry.recordsSet
+    case LEADERBOARD_METRIC.DaysHeld:
+      return entry.daysHeld
+    case LEADERBOARD_METRIC.LongestReign:
+      return entry.longestReign
+  }
+}
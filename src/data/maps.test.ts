@@ -0,0 +1,17 @@
+import { describe, expect, it } from 'vitest'
+import { getMapType, MAP_TYPE } from './maps.ts'
+
+describe('getMapType', () => {
+  it('reads the type from the name prefix', () => {
+    expect(getMapType('jump_bomb')).toBe(MAP_TYPE.Jump)
+    expect(getMapType('rj_example')).toBe(MAP_TYPE.RocketJump)
+    expect(getMapType('sj_example')).toBe(MAP_TYPE.StickyJump)
+    expect(getMapType('CONC_example')).toBe(MAP_TYPE.Conc)
+    expect(getMapType('df_example')).toBe(MAP_TYPE.Df)
+  })
+
+  it('returns null without a known prefix', () => {
+    expect(getMapType('bhop_example')).toBeNull()
+    expect(getMapType('jumpy')).toBeNull()
+  })
+})
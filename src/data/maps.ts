@@ -0,0 +1,31 @@
+/** Map types Tempus marks with a name prefix, e.g. `rj_` for rocket jump maps. */
+export const MAP_TYPE = {
+  Jump: 'jump',
+  RocketJump: 'rj',
+  StickyJump: 'sj',
+  Conc: 'conc',
+  Df: 'df',
+} as const
+
+export type MapType = (typeof MAP_TYPE)[keyof typeof MAP_TYPE]
+
+/** Tiers run from 1 (easiest) to this. */
+export const MAX_MAP_TIER = 10
+
+/**
+ * One entry of `public/data/map-metadata.json`, keyed by map name. Every field is optional so a
+ * map can be added as soon as anything about it is known.
+ */
+export type MapMetadata = {
+  tiers?: Partial<Record<'Solly' | 'Demo', number>>
+  rating?: number
+  author?: string
+  /** Only needed when the name prefix is wrong or missing. */
+  type?: MapType
+}
+
+/** The map's type from its name prefix, or `null` for names without a known one. */
+export function getMapType(map: string): MapType | null {
+  const prefix = map.split('_')[0].toLowerCase()
+  return Object.values(MAP_TYPE).find((type) => type === prefix) ?? null
+}
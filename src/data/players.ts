@@ -0,0 +1,65 @@
+import { resolvePlayer, resolvePlayerKey, type PlayerDirectory } from './identity.ts'
+import { buildZoneTimelines } from './timeline.ts'
+import type { DataFile, PlayerProfile, PlayerRecord } from './types.ts'
+
+/** Every row and record of one player, with rows tied to them through `directory` included. */
+export function buildPlayerProfile(
+  files: DataFile[],
+  key: string,
+  directory?: PlayerDirectory | null
+): PlayerProfile | null {
+  const nameDates = new Map<string, string>()
+  let steamId64: string | null = null
+  let rowCount = 0
+  let firstDate = ''
+  let lastDate = ''
+
+  for (const file of files) {
+    for (const row of file.rows) {
+      const player = resolvePlayer(row, directory)
+      if (player?.key !== key) continue
+      rowCount++
+      steamId64 ??= player.steamId64
+      const name = row.player.trim()
+      if (name && (nameDates.get(name) ?? '') <= row.date) {
+        nameDates.set(name, row.date)
+      }
+      if (row.date && (!firstDate || row.date < firstDate)) firstDate = row.date
+      if (row.date && row.date > lastDate) lastDate = row.date
+    }
+  }
+
+  if (rowCount === 0) return null
+
+  const records: PlayerRecord[] = []
+  for (const file of files) {
+    for (const { zone, timeline } of buildZoneTimelines(file.rows)) {
+      timeline.forEach((point, index) => {
+        if (resolvePlayerKey(point, directory) !== key) return
+        records.push({
+          map: file.map,
+          className: file.className,
+          zone,
+          point,
+          current: index === timeline.length - 1
+        })
+      })
+    }
+  }
+
+  // The most recently used name is what the player is known as today.
+  const names = Array.from(nameDates.entries())
+    .sort((a, b) => b[1].localeCompare(a[1]))
+    .map(([name]) => name)
+
+  return {
+    key,
+    name: names[0] ?? key,
+    aliases: names.slice(1),
+    steamId64,
+    rowCount,
+    firstDate,
+    lastDate,
+    records
+  }
+}
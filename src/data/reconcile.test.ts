@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest'
+import { loadFixture } from '../test/fixtures.ts'
+import { reconcileRows } from './reconcile.ts'
+import { buildTimeline } from './timeline.ts'
+import { EVIDENCE_KIND, type CsvRow } from './types.ts'
+
+const holers = loadFixture('wr_history_jump_4holers_Solly.csv')
+const bomb = loadFixture('wr_history_jump_bomb_Demo.csv')
+// Cygnus -rng's 41:14.79, announced on IRC on two days.
+const [, announced, repeated] = holers
+// alle's 04:51.16, backed by demo 13437.
+const run = bomb[0]
+
+describe('reconcileRows', () => {
+  it('merges rows reporting the same run into the first', () => {
+    const reconciled = reconcileRows(holers)
+    expect(reconciled).toHaveLength(holers.length - 1)
+    expect(reconciled[1]).toMatchObject({ row: announced, rowIndex: 1, date: '2021-04-30' })
+    expect(reconciled[1].corroborating).toEqual([
+      {
+        rowIndex: 2,
+        date: repeated.date,
+        record_time: repeated.record_time,
+        evidence: repeated.evidence,
+        evidence_source: repeated.evidence_source,
+        demo_id: ''
+      }
+    ])
+  })
+
+  it('shows merged rows as the +N count on the timeline', () => {
+    const timeline = buildTimeline(holers, { segment: 'Map' })
+    expect(timeline.map((point) => point.corroborating.length)).toEqual([0, 1, 0])
+  })
+
+  it('treats times within 0.005s as the same time', () => {
+    const close = { ...announced, record_time: '41:14.794' }
+    const apart = { ...announced, record_time: '41:14.80' }
+    expect(reconcileRows([announced, close])).toHaveLength(1)
+    expect(reconcileRows([announced, apart])).toHaveLength(2)
+  })
+
+  it('keeps runs from different demos apart', () => {
+    const other = { ...run, demo_id: '13438' }
+    expect(reconcileRows([run, other])).toHaveLength(2)
+    expect(reconcileRows([run, { ...run, demo_id: '' }])).toHaveLength(1)
+  })
+
+  it('keeps different players apart, matching ID-less rows by name', () => {
+    const stranger = { ...run, player: 'cody', steam_id64: '76561198078488228', steam_id: '' }
+    const byName: CsvRow = {
+      ...run,
+      player: 'ALLE',
+      steam_id64: '',
+      steam_id: '',
+      evidence: EVIDENCE_KIND.Announcement,
+      demo_id: ''
+    }
+    expect(reconcileRows([run, stranger])).toHaveLength(2)
+    expect(reconcileRows([run, byName])).toHaveLength(1)
+  })
+
+  it('keeps the strongest row and dates the run by its earliest dated evidence', () => {
+    const command: CsvRow = {
+      ...run,
+      date: '2014-07-01',
+      evidence: EVIDENCE_KIND.Command,
+      evidence_source: 'mi',
+      demo_id: ''
+    }
+    const announcement: CsvRow = {
+      ...command,
+      date: '2014-08-05',
+      evidence: EVIDENCE_KIND.Announcement,
+      evidence_source: 'irc'
+    }
+    const [merged] = reconcileRows([command, announcement, run])
+    expect(merged).toMatchObject({ row: run, rowIndex: 2, date: '2014-08-02' })
+    expect(merged.corroborating.map((source) => source.evidence)).toEqual([
+      EVIDENCE_KIND.Announcement,
+      EVIDENCE_KIND.Command
+    ])
+  })
+
+  it('falls back to the earliest date when no row is dated by its evidence', () => {
+    const later: CsvRow = { ...run, evidence: EVIDENCE_KIND.Command, demo_id: '' }
+    const earlier = { ...later, date: '2014-07-01', evidence: EVIDENCE_KIND.Observed }
+    const [merged] = reconcileRows([later, earlier])
+    expect(merged).toMatchObject({ row: later, date: '2014-07-01' })
+  })
+
+  it('passes through rows without a time or a player', () => {
+    const rows = [{ ...run, record_time: '' }, { ...run, player: '', steam_id64: '', steam_id: '' }]
+    expect(reconcileRows(rows).map((item) => item.corroborating)).toEqual([[], []])
+  })
+})
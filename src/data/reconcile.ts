@@ -0,0 +1,127 @@
+import { getPlayerKey } from './steam.ts'
+import { parseTimeToSeconds } from './time.ts'
+import { EVIDENCE_KIND, type CsvRow, type EvidenceKind, type EvidenceSource } from './types.ts'
+import { getSegmentKey } from './zones.ts'
+
+/** Strongest first: a demo beats a bot announcement beats command output beats a +split. */
+export const EVIDENCE_STRENGTH: EvidenceKind[] = [
+  EVIDENCE_KIND.Record,
+  EVIDENCE_KIND.Announcement,
+  EVIDENCE_KIND.Command,
+  EVIDENCE_KIND.Observed,
+]
+
+// Evidence dated when the run happened. Commands and +splits are dated when someone looked.
+const DATED_EVIDENCE: EvidenceKind[] = [EVIDENCE_KIND.Record, EVIDENCE_KIND.Announcement]
+
+// Times are recorded in hundredths; anything closer than that is the same time. A wider window
+// would swallow genuine 0.01s improvements.
+const SAME_TIME_EPSILON = 0.005
+
+export type ReconciledRow = {
+  /** The row with the strongest evidence; its fields describe the record. */
+  row: CsvRow
+  rowIndex: number
+  /** Earliest date among rows with dated evidence, or among all rows if none has any. */
+  date: string
+  /** The other rows that reported the same run, strongest first. */
+  corroborating: EvidenceSource[]
+}
+
+/**
+ * Merges rows that describe the same run: same segment, same player and the same time. Players
+ * match on Steam ID when both rows have one and on name otherwise, since bot announcements and
+ * command output carry no ID. Rows from different demos are different runs and stay apart.
+ */
+export function reconcileRows(rows: CsvRow[]): ReconciledRow[] {
+  type Item = { row: CsvRow; rowIndex: number; seconds: number }
+  const groups = new Map<string, Item[]>()
+  const reconciled: ReconciledRow[] = []
+
+  rows.forEach((row, rowIndex) => {
+    const seconds = parseTimeToSeconds(row.record_time)
+    if (seconds == null || !getPlayerKey(row)) {
+      reconciled.push({ row, rowIndex, date: row.date, corroborating: [] })
+      return
+    }
+    const key = getSegmentKey(row)
+    const group = groups.get(key)
+    if (group) group.push({ row, rowIndex, seconds })
+    else groups.set(key, [{ row, rowIndex, seconds }])
+  })
+
+  for (const group of groups.values()) {
+    group.sort((a, b) => a.seconds - b.seconds || a.rowIndex - b.rowIndex)
+    // Runs still open at the current time; a slower time closes all of them.
+    let open: Item[][] = []
+    for (const item of group) {
+      if (open.length > 0 && item.seconds - open[0][0].seconds > SAME_TIME_EPSILON) {
+        reconciled.push(...open.map(mergeRun))
+        open = []
+      }
+      const run = open.find((candidate) =>
+        candidate.every((other) => isSameRun(other.row, item.row))
+      )
+      if (run) run.push(item)
+      else open.push([item])
+    }
+    reconciled.push(...open.map(mergeRun))
+  }
+
+  return reconciled.sort((a, b) => a.rowIndex - b.rowIndex)
+}
+
+/** Whether two rows with the same segment and time report one run rather than a tie. */
+export function isSameRun(a: CsvRow, b: CsvRow) {
+  if (a.demo_id && b.demo_id && a.demo_id !== b.demo_id) return false
+  const left = getPlayerKey(a)
+  const right = getPlayerKey(b)
+  if (left && right && !left.startsWith('name:') && !right.startsWith('name:')) {
+    return left === right
+  }
+  return a.player.trim().toLowerCase() === b.player.trim().toLowerCase()
+}
+
+function mergeRun(run: Array<{ row: CsvRow; rowIndex: number }>): ReconciledRow {
+  const ranked = [...run].sort(
+    (a, b) =>
+      getEvidenceRank(a.row) - getEvidenceRank(b.row) ||
+      a.row.date.localeCompare(b.row.date) ||
+      a.rowIndex - b.rowIndex
+  )
+  const [primary, ...others] = ranked
+  const dated = ranked.filter((item) => {
+    const kind = getEvidenceKind(item.row)
+    return kind != null && DATED_EVIDENCE.includes(kind)
+  })
+  const dates = (dated.length > 0 ? dated : ranked)
+    .map((item) => item.row.date)
+    .filter(Boolean)
+  const date =
+    dates.length > 0
+      ? dates.reduce((earliest, value) => (value < earliest ? value : earliest))
+      : primary.row.date
+  return {
+    row: primary.row,
+    rowIndex: primary.rowIndex,
+    date,
+    corroborating: others.map(({ row, rowIndex }) => ({
+      rowIndex,
+      date: row.date,
+      record_time: row.record_time,
+      evidence: row.evidence,
+      evidence_source: row.evidence_source,
+      demo_id: row.demo_id
+    }))
+  }
+}
+
+function getEvidenceKind(row: Pick<CsvRow, 'evidence'>) {
+  const kind = (row.evidence ?? '').trim().toLowerCase()
+  return EVIDENCE_STRENGTH.find((item) => item === kind) ?? null
+}
+
+function getEvidenceRank(row: Pick<CsvRow, 'evidence'>) {
+  const kind = getEvidenceKind(row)
+  return kind ? EVIDENCE_STRENGTH.indexOf(kind) : EVIDENCE_STRENGTH.length
+}
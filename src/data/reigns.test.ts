@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest'
+import { loadFixture } from '../test/fixtures.ts'
+import { buildReigns, summarizeReigns } from './reigns.ts'
+import { buildTimeline } from './timeline.ts'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const NOW = Date.UTC(2025, 0, 1)
+const bomb = buildTimeline(loadFixture('wr_history_jump_bomb_Demo.csv'), { segment: 'Map' })
+const days = (from: string, to: string) => (Date.parse(to) - Date.parse(from)) / DAY_MS
+
+describe('buildReigns', () => {
+  const reigns = buildReigns(bomb, NOW)
+
+  it('measures each reign until the next change', () => {
+    expect(reigns[0]).toMatchObject({ date: '2014-08-02', reigning: false })
+    expect(reigns[0].reignDays).toBe(days('2014-08-02', '2014-08-09'))
+  })
+
+  it('runs the standing record until now', () => {
+    const current = reigns[reigns.length - 1]
+    expect(current).toMatchObject({ date: '2021-11-07', reigning: true })
+    expect(current.reignDays).toBeCloseTo((NOW - Date.parse('2021-11-07')) / DAY_MS)
+    expect(reigns.filter((point) => point.reigning)).toHaveLength(1)
+  })
+
+  it('skips wiped points when looking for the next change', () => {
+    const wiped = reigns.find((point) => point.wiped)
+    expect(wiped?.player).toBe('my feelings 4 u')
+    expect(wiped?.reignDays).toBe(days('2014-10-19', '2015-06-21'))
+    expect(reigns[2].reignDays).toBe(days('2014-10-16', '2015-06-21'))
+  })
+
+  it('reads splits and improvements from the row', () => {
+    expect(reigns[1].splitSeconds).toBeCloseTo(-35.38)
+    expect(reigns[1].improvementSeconds).toBeCloseTo(36.21)
+    expect(reigns[5].improvementSeconds).toBeNull()
+  })
+
+  it('falls back to the previous point for a missing split, except across a wipe', () => {
+    const timeline = bomb.map((point) => ({ ...point, split: '' }))
+    const fallback = buildReigns(timeline, NOW)
+    expect(fallback[0].splitSeconds).toBeNull()
+    expect(fallback[1].splitSeconds).toBeCloseTo(255.77 - 291.16)
+    expect(fallback[4]).toMatchObject({ wipedBoundary: true, splitSeconds: null })
+  })
+})
+
+describe('summarizeReigns', () => {
+  it('ignores wiped points and wipe boundary splits', () => {
+    const summary = summarizeReigns(buildReigns(bomb, NOW))
+    expect(summary.longestReign).toMatchObject({ date: '2021-11-07' })
+    expect(summary.biggestImprovement).toMatchObject({ player: 'cody' })
+    expect(summary.totalImprovement).toBeCloseTo(291.16 - 166.95)
+  })
+
+  it('handles an empty timeline', () => {
+    expect(summarizeReigns([])).toEqual({
+      longestReign: null,
+      biggestImprovement: null,
+      totalImprovement: null
+    })
+  })
+})
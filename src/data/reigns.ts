@@ -0,0 +1,74 @@
+import { parseSignedTimeToSeconds } from './time.ts'
+import type { TimelinePoint } from './types.ts'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export type ReignPoint = TimelinePoint & {
+  /** Days until the next non-wiped change, or until `now` for the standing record. */
+  reignDays: number
+  /** No later non-wiped change: this is the standing record. */
+  reigning: boolean
+  /**
+   * Change against the WR this point replaced, negative when faster. Read from the `split`
+   * column, or taken from the previous point when the row has none.
+   */
+  splitSeconds: number | null
+  /** The `improvement` column: how much the player beat their own previous time by. */
+  improvementSeconds: number | null
+}
+
+export type ReignSummary = {
+  longestReign: ReignPoint | null
+  /** The point that took the most time off the WR it replaced. */
+  biggestImprovement: ReignPoint | null
+  /** First recorded time minus the current one; negative if wipes left the WR slower. */
+  totalImprovement: number | null
+}
+
+export function buildReigns(timeline: TimelinePoint[], now = Date.now()): ReignPoint[] {
+  let nextChange = now
+  const reigns: ReignPoint[] = []
+  for (let i = timeline.length - 1; i >= 0; i--) {
+    const point = timeline[i]
+    const previous = timeline[i - 1]
+    const split = parseSignedTimeToSeconds(point.split)
+    reigns[i] = {
+      ...point,
+      reignDays: Math.max(0, nextChange - point.dateValue) / DAY_MS,
+      reigning: nextChange === now,
+      splitSeconds:
+        split ??
+        (previous && !point.wipedBoundary ? point.recordSeconds - previous.recordSeconds : null),
+      improvementSeconds: parseSignedTimeToSeconds(point.improvement)
+    }
+    if (!point.wiped) nextChange = point.dateValue
+  }
+  return reigns
+}
+
+/** Summary stats over a timeline from `buildReigns`; wiped points never count as records. */
+export function summarizeReigns(reigns: ReignPoint[]): ReignSummary {
+  let longestReign: ReignPoint | null = null
+  let biggestImprovement: ReignPoint | null = null
+  for (const point of reigns) {
+    if (point.wiped) continue
+    if (!longestReign || point.reignDays > longestReign.reignDays) longestReign = point
+    // A wipe boundary's split is measured against the wiped times, not the WR it replaced.
+    if (
+      !point.wipedBoundary &&
+      point.splitSeconds != null &&
+      point.splitSeconds < 0 &&
+      (biggestImprovement?.splitSeconds == null ||
+        point.splitSeconds < biggestImprovement.splitSeconds)
+    ) {
+      biggestImprovement = point
+    }
+  }
+  const first = reigns[0]
+  const current = reigns[reigns.length - 1]
+  return {
+    longestReign,
+    biggestImprovement,
+    totalImprovement: first && current ? first.recordSeconds - current.recordSeconds : null
+  }
+}
@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest'
+import { loadFixture } from '../test/fixtures.ts'
+import { decodeShard, encodeShard, SHARD_VERSION } from './shards.ts'
+import type { CsvRow, DataFile } from './types.ts'
+
+const files: DataFile[] = [
+  {
+    map: 'jump_4holers',
+    className: 'Solly',
+    rows: loadFixture('wr_history_jump_4holers_Solly.csv')
+  },
+  { map: 'jump_bomb', className: 'Demo', rows: loadFixture('wr_history_jump_bomb_Demo.csv') }
+]
+
+describe('encodeShard', () => {
+  it('round-trips shipped files exactly', () => {
+    expect(decodeShard(encodeShard(files))).toEqual(files)
+  })
+
+  it('survives JSON, as the index build writes it', () => {
+    const shard = JSON.parse(JSON.stringify(encodeShard(files)))
+    expect(decodeShard(shard)).toEqual(files)
+  })
+
+  it('packs dates, times and ids as numbers and interns repeated strings', () => {
+    const shard = encodeShard(files)
+    const [row] = shard.files[1].rows
+    const column = (name: keyof CsvRow) => row[shard.columns.indexOf(name)]
+    expect(column('date')).toBe(Date.UTC(2014, 7, 2) / 86_400_000)
+    expect(column('record_time')).toBe(29116)
+    expect(column('split')).toBe(-1838)
+    expect(column('demo_id')).toBe(13437)
+    expect(shard.strings.filter((value) => value === 'jump_bomb')).toHaveLength(1)
+  })
+
+  it('keeps values that would not round-trip as strings', () => {
+    const [base] = files[1].rows
+    const odd = { ...base, record_time: '4:51.160', date: '2014-8-2', demo_id: '007' }
+    const shard = encodeShard([{ ...files[1], rows: [odd] }])
+    expect(shard.files[0].rows[0]).toContain('4:51.160')
+    expect(decodeShard(shard)[0].rows).toEqual([odd])
+  })
+})
+
+describe('decodeShard', () => {
+  it('rejects other versions', () => {
+    const shard = { ...encodeShard(files), version: SHARD_VERSION + 1 }
+    expect(() => decodeShard(shard as never)).toThrow(/version/)
+  })
+})
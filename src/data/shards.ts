@@ -0,0 +1,122 @@
+import { formatSeconds, parseSignedTimeToSeconds } from './time.ts'
+import { CSV_HEADERS, type CsvRow, type DataFile } from './types.ts'
+
+export const SHARD_VERSION = 1
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// How each CSV column is packed. Anything that does not round-trip exactly is kept as a string.
+const COLUMN_CODEC: Record<keyof CsvRow, 'intern' | 'time' | 'date' | 'number'> = {
+  date: 'date',
+  record_time: 'time',
+  player: 'intern',
+  map: 'intern',
+  record_type: 'intern',
+  segment: 'intern',
+  evidence: 'intern',
+  evidence_source: 'intern',
+  run_time: 'time',
+  split: 'time',
+  improvement: 'time',
+  demo_id: 'number',
+  steam_id64: 'intern',
+  steam_id: 'intern',
+  steam_candidates: 'intern'
+}
+
+type ShardCell = number | string | null
+
+export type DataShard = {
+  version: typeof SHARD_VERSION
+  columns: Array<keyof CsvRow>
+  /** Interned strings; `intern` columns hold an index into this table. */
+  strings: string[]
+  files: Array<{ map: string; className: 'Solly' | 'Demo'; rows: ShardCell[][] }>
+}
+
+export function encodeShard(files: DataFile[]): DataShard {
+  const strings: string[] = []
+  const lookup = new Map<string, number>()
+  const intern = (value: string) => {
+    let id = lookup.get(value)
+    if (id == null) {
+      id = strings.length
+      strings.push(value)
+      lookup.set(value, id)
+    }
+    return id
+  }
+
+  return {
+    version: SHARD_VERSION,
+    columns: [...CSV_HEADERS],
+    strings,
+    files: files.map((file) => ({
+      map: file.map,
+      className: file.className,
+      rows: file.rows.map((row) =>
+        CSV_HEADERS.map((column) => encodeCell(COLUMN_CODEC[column], row[column] ?? '', intern))
+      )
+    }))
+  }
+}
+
+export function decodeShard(shard: DataShard): DataFile[] {
+  if (shard.version !== SHARD_VERSION) {
+    throw new Error(`Unsupported shard version ${shard.version}`)
+  }
+  return shard.files.map((file) => ({
+    map: file.map,
+    className: file.className,
+    rows: file.rows.map((cells) => {
+      const row: Record<string, string> = {}
+      shard.columns.forEach((column, index) => {
+        row[column] = decodeCell(COLUMN_CODEC[column], cells[index] ?? null, shard.strings)
+      })
+      return row as CsvRow
+    })
+  }))
+}
+
+function encodeCell(
+  codec: (typeof COLUMN_CODEC)[keyof CsvRow],
+  value: string,
+  intern: (value: string) => number
+): ShardCell {
+  if (codec === 'intern') return intern(value)
+  if (!value) return null
+  if (codec === 'time') {
+    const seconds = parseSignedTimeToSeconds(value)
+    if (seconds == null) return value
+    const hundredths = Math.round(seconds * 100)
+    return formatHundredths(hundredths) === value ? hundredths : value
+  }
+  if (codec === 'date') {
+    const days = Date.parse(`${value}T00:00:00Z`) / DAY_MS
+    return Number.isInteger(days) && formatDays(days) === value ? days : value
+  }
+  const number = Number(value)
+  return Number.isSafeInteger(number) && String(number) === value ? number : value
+}
+
+function decodeCell(
+  codec: (typeof COLUMN_CODEC)[keyof CsvRow],
+  cell: ShardCell,
+  strings: string[]
+): string {
+  if (cell == null) return ''
+  if (typeof cell === 'string') return cell
+  if (codec === 'intern') return strings[cell] ?? ''
+  if (codec === 'time') return formatHundredths(cell)
+  if (codec === 'date') return formatDays(cell)
+  return String(cell)
+}
+
+function formatHundredths(hundredths: number) {
+  const sign = hundredths < 0 ? '-' : ''
+  return `${sign}${formatSeconds(Math.abs(hundredths) / 100)}`
+}
+
+function formatDays(days: number) {
+  return new Date(days * DAY_MS).toISOString().slice(0, 10)
+}
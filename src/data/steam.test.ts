@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest'
+import { loadFixture } from '../test/fixtures.ts'
+import {
+  buildSteamProfileUrl,
+  getPlayerKey,
+  normalizeSteamId64,
+  parseSteamCandidates,
+  parseSteamId64
+} from './steam.ts'
+
+const PLAYER = { player: '', steam_id64: '', steam_id: '', steam_candidates: '' }
+
+describe('parseSteamId64', () => {
+  it('converts every Steam ID form to the same ID64', () => {
+    expect(parseSteamId64('76561198040983512')).toBe('76561198040983512')
+    expect(parseSteamId64('STEAM_0:0:40358892')).toBe('76561198040983512')
+    expect(parseSteamId64('[U:1:80717784]')).toBe('76561198040983512')
+  })
+
+  it('agrees with both ID columns of a shipped file', () => {
+    for (const row of loadFixture('wr_history_jump_bomb_Demo.csv')) {
+      if (row.steam_id64 && row.steam_id) {
+        expect(parseSteamId64(row.steam_id)).toBe(row.steam_id64)
+      }
+    }
+  })
+
+  it('rejects anything else', () => {
+    expect(parseSteamId64('')).toBeNull()
+    expect(parseSteamId64('alle')).toBeNull()
+    expect(parseSteamId64('[U:1:abc]')).toBeNull()
+    expect(parseSteamId64('STEAM_0:0')).toBeNull()
+    expect(normalizeSteamId64('123')).toBeNull()
+  })
+})
+
+describe('parseSteamCandidates', () => {
+  it('splits name|id64|id entries and drops nameless ones', () => {
+    expect(parseSteamCandidates('alle|76561198040983512|;|1|2; cody ||[U:1:1]')).toEqual([
+      { name: 'alle', steamId64: '76561198040983512', steamId: undefined },
+      { name: 'cody', steamId64: undefined, steamId: '[U:1:1]' }
+    ])
+  })
+})
+
+describe('buildSteamProfileUrl', () => {
+  it('links the ID64, falling back to the other column', () => {
+    expect(buildSteamProfileUrl(undefined, '[U:1:80717784]')).toBe(
+      'https://steamcommunity.com/profiles/76561198040983512'
+    )
+    expect(buildSteamProfileUrl('', 'nope')).toBeNull()
+  })
+})
+
+describe('getPlayerKey', () => {
+  it('prefers the Steam ID and falls back to the name', () => {
+    expect(getPlayerKey({ ...PLAYER, player: 'alle', steam_id: 'STEAM_0:0:40358892' })).toBe(
+      '76561198040983512'
+    )
+    expect(getPlayerKey({ ...PLAYER, player: ' Katto -rng ' })).toBe('name:Katto -rng')
+    expect(getPlayerKey(PLAYER)).toBeNull()
+  })
+})
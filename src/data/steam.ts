@@ -0,0 +1,72 @@
+import type { PlayerRow, SteamCandidate } from './types.ts'
+
+const STEAM_ID64_BASE = 76561197960265728n
+
+export function parseSteamCandidates(value: string): SteamCandidate[] {
+  if (!value) return []
+  return value
+    .split(';')
+    .map((entry) => {
+      const [name, steamId64, steamId] = entry.split('|')
+      const trimmedName = name?.trim()
+      if (!trimmedName) return null
+      return {
+        name: trimmedName,
+        steamId64: steamId64?.trim() || undefined,
+        steamId: steamId?.trim() || undefined
+      }
+    })
+    .filter(Boolean) as SteamCandidate[]
+}
+
+export function normalizeSteamId64(value?: string): string | null {
+  if (!value) return null
+  const trimmed = value.trim()
+  if (!trimmed) return null
+  if (/^\d{16,17}$/.test(trimmed)) return trimmed
+  return null
+}
+
+export function parseSteamId64(steamId?: string): string | null {
+  if (!steamId) return null
+  const trimmed = steamId.trim()
+  if (!trimmed) return null
+
+  const direct = normalizeSteamId64(trimmed)
+  if (direct) return direct
+
+  if (trimmed.startsWith('[U:') && trimmed.endsWith(']')) {
+    const lastColon = trimmed.lastIndexOf(':')
+    if (lastColon > 0) {
+      const value = trimmed.slice(lastColon + 1, -1)
+      if (/^\d+$/.test(value)) {
+        return (STEAM_ID64_BASE + BigInt(value)).toString()
+      }
+    }
+  }
+
+  if (trimmed.startsWith('STEAM_')) {
+    const parts = trimmed.slice('STEAM_'.length).split(':')
+    if (parts.length === 3 && /^\d+$/.test(parts[1]) && /^\d+$/.test(parts[2])) {
+      const y = BigInt(parts[1])
+      const z = BigInt(parts[2])
+      return (STEAM_ID64_BASE + z * 2n + y).toString()
+    }
+  }
+
+  return null
+}
+
+export function buildSteamProfileUrl(steamId64?: string, steamId?: string): string | null {
+  const parsed = normalizeSteamId64(steamId64) ?? parseSteamId64(steamId)
+  if (!parsed) return null
+  return `https://steamcommunity.com/profiles/${parsed}`
+}
+
+export function getPlayerKey(row: PlayerRow): string | null {
+  const steamId64 = parseSteamId64(row.steam_id64) ?? parseSteamId64(row.steam_id)
+  if (steamId64) return steamId64
+  // Rows without any Steam ID can only be grouped by the name shown at the time.
+  const name = (row.player ?? '').trim()
+  return name ? `name:${name}` : null
+}
@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest'
+import { formatSeconds, parseSignedTimeToSeconds, parseTimeToSeconds } from './time.ts'
+
+describe('parseTimeToSeconds', () => {
+  it('reads minutes and hours', () => {
+    expect(parseTimeToSeconds('04:51.16')).toBeCloseTo(291.16)
+    expect(parseTimeToSeconds('00:00.94')).toBeCloseTo(0.94)
+    expect(parseTimeToSeconds('1:03:59.97')).toBeCloseTo(3839.97)
+  })
+
+  it('rejects values that are not times', () => {
+    expect(parseTimeToSeconds('')).toBeNull()
+    expect(parseTimeToSeconds('51.16')).toBeNull()
+    expect(parseTimeToSeconds('1:2:3:4')).toBeNull()
+    expect(parseTimeToSeconds('ab:cd')).toBeNull()
+  })
+})
+
+describe('parseSignedTimeToSeconds', () => {
+  it('keeps the sign of splits', () => {
+    expect(parseSignedTimeToSeconds('-00:18.38')).toBeCloseTo(-18.38)
+    expect(parseSignedTimeToSeconds('+00:01.50')).toBeCloseTo(1.5)
+    expect(parseSignedTimeToSeconds('-1:50:37.72')).toBeCloseTo(-6637.72)
+    expect(parseSignedTimeToSeconds(' ')).toBeNull()
+  })
+})
+
+describe('formatSeconds', () => {
+  it('round-trips through parseTimeToSeconds', () => {
+    for (const value of ['04:51.16', '00:00.94', '1:03:59.97']) {
+      expect(formatSeconds(parseTimeToSeconds(value) ?? 0)).toBe(value)
+    }
+  })
+})
@@ -0,0 +1,30 @@
+export function parseTimeToSeconds(value: string): number | null {
+  if (!value) return null
+  const parts = value.split(':')
+  if (parts.length < 2 || parts.length > 3) return null
+  const seconds = Number.parseFloat(parts[parts.length - 1])
+  const minutes = Number.parseInt(parts[parts.length - 2], 10)
+  const hours = parts.length === 3 ? Number.parseInt(parts[0], 10) : 0
+  if (Number.isNaN(seconds) || Number.isNaN(minutes) || Number.isNaN(hours)) return null
+  return hours * 3600 + minutes * 60 + seconds
+}
+
+/** Parses `split`/`improvement` style values such as `-00:18.38` or `-1:50:37.72`. */
+export function parseSignedTimeToSeconds(value: string): number | null {
+  const trimmed = (value ?? '').trim()
+  if (!trimmed) return null
+  const sign = trimmed.startsWith('-') ? -1 : 1
+  const seconds = parseTimeToSeconds(trimmed.replace(/^[-+]/, ''))
+  return seconds == null ? null : sign * seconds
+}
+
+export function formatSeconds(seconds: number) {
+  const total = Math.max(0, seconds)
+  const hours = Math.floor(total / 3600)
+  const minutes = Math.floor((total % 3600) / 60)
+  const secs = (total % 60).toFixed(2).padStart(5, '0')
+  if (hours > 0) {
+    return `${hours}:${String(minutes).padStart(2, '0')}:${secs}`
+  }
+  return `${String(minutes).padStart(2, '0')}:${secs}`
+}
@@ -0,0 +1,98 @@
+import { describe, expect, it } from 'vitest'
+import { loadFixture } from '../test/fixtures.ts'
+import {
+  buildTimeline,
+  buildZoneTimelines,
+  explainWipes,
+  getWipeBoundaryTrigger,
+  WIPE_TRIGGER,
+  withoutWipeInference
+} from './timeline.ts'
+import { EVIDENCE_KIND, type CsvRow } from './types.ts'
+
+const bomb = loadFixture('wr_history_jump_bomb_Demo.csv')
+const holers = loadFixture('wr_history_jump_4holers_Solly.csv')
+
+describe('buildTimeline', () => {
+  it('infers a wipe from a slower time backed by a demo', () => {
+    const timeline = buildTimeline(bomb, { segment: 'Map' })
+    expect(timeline.map((point) => point.record_time)).toEqual([
+      '04:51.16',
+      '04:15.77',
+      '04:08.97',
+      '03:53.74',
+      '03:53.93',
+      '03:12.43',
+      '03:07.52',
+      '03:06.25',
+      '03:05.29',
+      '03:00.11',
+      '02:59.64',
+      '02:46.95'
+    ])
+    const boundary = timeline[4]
+    expect(boundary).toMatchObject({ player: 'Soup Can', wipedBoundary: true, wiped: false })
+    expect(timeline.filter((point) => point.wiped).map((point) => point.player)).toEqual([
+      'my feelings 4 u'
+    ])
+    expect(getWipeBoundaryTrigger(boundary)).toBe(WIPE_TRIGGER.Record)
+  })
+
+  it('infers a wipe from an irc_set announcement', () => {
+    const announced: CsvRow = { ...holers[0], date: '2021-06-01', record_time: '45:00.00' }
+    const timeline = buildTimeline([...holers, announced], { segment: 'Map' })
+    expect(timeline.map((point) => [point.record_time, point.wipedBoundary, point.wiped])).toEqual([
+      ['1:03:59.97', false, false],
+      ['41:14.79', false, true],
+      ['14:12.72', false, true],
+      ['45:00.00', true, false]
+    ])
+    expect(getWipeBoundaryTrigger(timeline[3])).toBe(WIPE_TRIGGER.IrcSet)
+    expect(explainWipes(timeline)[0]).toMatchObject({ trigger: WIPE_TRIGGER.IrcSet })
+  })
+
+  it('drops slower times that carry no wipe evidence', () => {
+    const rows: CsvRow[] = [
+      { ...bomb[1], date: '2014-08-01' },
+      { ...bomb[0], evidence: EVIDENCE_KIND.Command, evidence_source: 'mi', date: '2014-08-02' }
+    ]
+    expect(buildTimeline(rows).map((point) => point.record_time)).toEqual(['04:15.77'])
+  })
+
+  it('only keeps rows of the requested segment', () => {
+    const timeline = buildTimeline(bomb, { segment: 'bonus-2' })
+    expect(timeline.at(-1)).toMatchObject({ record_time: '00:28.71', player: 'Cryptical' })
+    expect(timeline.every((point) => point.segment === 'Bonus 2')).toBe(true)
+  })
+})
+
+describe('withoutWipeInference', () => {
+  it('keeps every point but clears the wipe flags', () => {
+    const timeline = buildTimeline(bomb, { segment: 'Map' })
+    const raw = withoutWipeInference(timeline)
+    expect(raw.map((point) => point.record_time)).toEqual(
+      timeline.map((point) => point.record_time)
+    )
+    expect(raw.some((point) => point.wiped || point.wipedBoundary)).toBe(false)
+  })
+})
+
+describe('explainWipes', () => {
+  it('names the boundary and the times it wiped', () => {
+    const [explanation] = explainWipes(buildTimeline(bomb, { segment: 'Map' }))
+    expect(explanation.boundary.player).toBe('Soup Can')
+    expect(explanation.wiped.map((point) => point.player)).toEqual(['my feelings 4 u'])
+  })
+})
+
+describe('buildZoneTimelines', () => {
+  it('builds one timeline per zone', () => {
+    const timelines = buildZoneTimelines(holers)
+    expect(timelines.map((item) => item.zone?.id ?? 'Map').sort()).toEqual([
+      'Map',
+      'bonus-1',
+      'bonus-2',
+      'bonus-5'
+    ])
+  })
+})
@@ -0,0 +1,142 @@
+import { reconcileRows } from './reconcile.ts'
+import { parseTimeToSeconds } from './time.ts'
+import {
+  EVIDENCE_KIND,
+  type CsvRow,
+  type DataPoint,
+  type TimelinePoint,
+  type ZoneTimeline
+} from './types.ts'
+import { getSegmentKey, groupRowsByZone } from './zones.ts'
+
+export type TimelineOptions = {
+  /** `Map` or a zone id such as `bonus-1`; when omitted every row is treated as one timeline. */
+  segment?: string
+}
+
+/** Evidence strong enough to accept a slower time as the new WR, implying a wipe. */
+export const WIPE_TRIGGER = {
+  Record: 'record',
+  IrcSet: 'announcement/irc_set',
+} as const
+
+export type WipeTrigger = (typeof WIPE_TRIGGER)[keyof typeof WIPE_TRIGGER]
+
+export type WipeExplanation = {
+  boundary: TimelinePoint
+  trigger: WipeTrigger
+  /** Earlier points this boundary is the first slower record after, oldest first. */
+  wiped: TimelinePoint[]
+}
+
+const EPSILON = 0.0001
+
+export function getWipeBoundaryTrigger(
+  row: Pick<CsvRow, 'evidence' | 'evidence_source'>
+): WipeTrigger | null {
+  const evidence = (row.evidence ?? '').trim().toLowerCase()
+  const source = (row.evidence_source ?? '').trim().toLowerCase()
+  if (evidence === EVIDENCE_KIND.Record) return WIPE_TRIGGER.Record
+  if (evidence === EVIDENCE_KIND.Announcement && source === 'irc_set') return WIPE_TRIGGER.IrcSet
+  return null
+}
+
+export function isWipeBoundaryTrigger(row: Pick<CsvRow, 'evidence' | 'evidence_source'>) {
+  return getWipeBoundaryTrigger(row) != null
+}
+
+export function buildTimeline(rows: CsvRow[], options: TimelineOptions = {}): TimelinePoint[] {
+  const selected =
+    options.segment == null ? rows : rows.filter((row) => getSegmentKey(row) === options.segment)
+
+  // Several rows often report the same run; each run becomes one point dated by its best evidence.
+  const points = reconcileRows(selected)
+    .map(({ row, rowIndex, date, corroborating }) => {
+      const dateValue = Date.parse(date)
+      const recordSeconds = parseTimeToSeconds(row.record_time)
+      if (!dateValue || recordSeconds == null) return null
+      return { ...row, date, rowIndex, dateValue, recordSeconds, corroborating }
+    })
+    .filter(Boolean) as DataPoint[]
+
+  points.sort((a, b) => a.dateValue - b.dateValue || a.rowIndex - b.rowIndex)
+
+  let current: number | null = null
+  const timeline: TimelinePoint[] = []
+
+  for (const point of points) {
+    if (current == null) {
+      current = point.recordSeconds
+      timeline.push({ ...point, wiped: false, wipedBoundary: false })
+      continue
+    }
+
+    if (point.recordSeconds < current - EPSILON) {
+      current = point.recordSeconds
+      timeline.push({ ...point, wiped: false, wipedBoundary: false })
+      continue
+    }
+
+    if (isWipeBoundaryTrigger(point) && point.recordSeconds > current + EPSILON) {
+      // A later WR that is slower than the previous one implies earlier times may have been wiped.
+      current = point.recordSeconds
+      timeline.push({ ...point, wiped: false, wipedBoundary: true })
+    }
+  }
+
+  let maxWipeBoundary: number | null = null
+  for (let i = timeline.length - 1; i >= 0; i--) {
+    const point = timeline[i]
+    if (point.wipedBoundary) {
+      maxWipeBoundary =
+        maxWipeBoundary == null
+          ? point.recordSeconds
+          : Math.max(maxWipeBoundary, point.recordSeconds)
+    }
+    const wiped = maxWipeBoundary != null && point.recordSeconds < maxWipeBoundary - EPSILON
+    timeline[i] = { ...point, wiped }
+  }
+
+  return timeline
+}
+
+export function buildZoneTimelines(rows: CsvRow[]): ZoneTimeline[] {
+  return groupRowsByZone(rows).map((group) => ({
+    zone: group.zone,
+    timeline: buildTimeline(group.rows)
+  }))
+}
+
+/**
+ * The same points with the wipe inference undone: nothing is flagged as wiped or as a boundary,
+ * so slower records read as the raw sequence in the data.
+ */
+export function withoutWipeInference<T extends TimelinePoint>(timeline: T[]): T[] {
+  return timeline.map((point) => ({ ...point, wiped: false, wipedBoundary: false }))
+}
+
+/** Groups wiped points under the boundary that first showed they no longer stood. */
+export function explainWipes(timeline: TimelinePoint[]): WipeExplanation[] {
+  const explanations = new Map<number, WipeExplanation>()
+  timeline.forEach((point, index) => {
+    if (!point.wipedBoundary) return
+    explanations.set(index, {
+      boundary: point,
+      trigger: getWipeBoundaryTrigger(point) ?? WIPE_TRIGGER.Record,
+      wiped: []
+    })
+  })
+
+  timeline.forEach((point, index) => {
+    if (!point.wiped) return
+    for (const [boundaryIndex, explanation] of explanations) {
+      const slower = explanation.boundary.recordSeconds > point.recordSeconds + EPSILON
+      if (boundaryIndex > index && slower) {
+        explanation.wiped.push(point)
+        break
+      }
+    }
+  })
+
+  return [...explanations.values()]
+}
@@ -0,0 +1,228 @@
+import type { ReignPoint } from './reigns.ts'
+
+export const EVIDENCE_KIND = {
+  Record: 'record',
+  Command: 'command',
+  Observed: 'observed',
+  Announcement: 'announcement',
+} as const
+
+export type EvidenceKind = (typeof EVIDENCE_KIND)[keyof typeof EVIDENCE_KIND]
+
+export const SEGMENT_LABEL = {
+  Map: 'Map',
+} as const
+
+export type CsvRow = {
+  date: string
+  record_time: string
+  player: string
+  map: string
+  record_type: string
+  segment: string
+  evidence: EvidenceKind
+  evidence_source: string
+  run_time: string
+  split: string
+  improvement: string
+  demo_id: string
+  steam_id64: string
+  steam_id: string
+  steam_candidates: string
+}
+
+/** Column order written by the `wr-history-all` export. */
+export const CSV_HEADERS = [
+  'date',
+  'record_time',
+  'player',
+  'map',
+  'record_type',
+  'segment',
+  'evidence',
+  'evidence_source',
+  'run_time',
+  'split',
+  'improvement',
+  'demo_id',
+  'steam_id64',
+  'steam_id',
+  'steam_candidates',
+] as const satisfies ReadonlyArray<keyof CsvRow>
+
+/** Another row that reported the same run as a timeline point. */
+export type EvidenceSource = Pick<
+  CsvRow,
+  'date' | 'record_time' | 'evidence' | 'evidence_source' | 'demo_id'
+> & {
+  rowIndex: number
+}
+
+export type DataPoint = CsvRow & {
+  rowIndex: number
+  dateValue: number
+  recordSeconds: number
+  /** Rows merged into this point, strongest evidence first; empty if only one row reported it. */
+  corroborating: EvidenceSource[]
+}
+
+export type TimelinePoint = DataPoint & {
+  wiped: boolean
+  wipedBoundary: boolean
+}
+
+export type PlayerRow = Pick<CsvRow, 'player' | 'steam_id64' | 'steam_id' | 'steam_candidates'>
+
+export type SteamCandidate = {
+  name: string
+  steamId64?: string
+  steamId?: string
+}
+
+export type ZoneInfo = {
+  id: string
+  label: string
+  kind: 'bonus' | 'course' | 'segment'
+  order: number
+}
+
+export type ZoneTimeline = {
+  zone: ZoneInfo | null
+  timeline: TimelinePoint[]
+}
+
+/** The parsed rows of one `wr_history_<map>_<Class>.csv` file. */
+export type DataFile = {
+  map: string
+  className: 'Solly' | 'Demo'
+  rows: CsvRow[]
+}
+
+export type PlayerRecord = {
+  map: string
+  className: 'Solly' | 'Demo'
+  zone: ZoneInfo | null
+  point: TimelinePoint
+  current: boolean
+}
+
+export type PlayerProfile = {
+  key: string
+  name: string
+  aliases: string[]
+  steamId64: string | null
+  rowCount: number
+  firstDate: string
+  lastDate: string
+  records: PlayerRecord[]
+}
+
+export type WorldRecord = {
+  map: string
+  className: 'Solly' | 'Demo'
+  zone: ZoneInfo | null
+  point: TimelinePoint
+  /** Days the record had stood on the snapshot date. */
+  days: number
+}
+
+export type RecordHolder = {
+  key: string
+  /** The name on the holder's most recent record as of the snapshot date. */
+  name: string
+  records: number
+  /** Records on whole maps rather than zones. */
+  mapRecords: number
+}
+
+export type WorldSnapshot = {
+  date: string
+  className: 'Solly' | 'Demo'
+  records: WorldRecord[]
+  /** Most records first. */
+  holders: RecordHolder[]
+}
+
+export type LeaderboardRecord = {
+  map: string
+  className: 'Solly' | 'Demo'
+  zone: ZoneInfo | null
+  point: ReignPoint
+}
+
+export type LeaderboardEntry = {
+  key: string
+  /** The name on the player's most recent record. */
+  name: string
+  currentMapRecords: number
+  currentZoneRecords: number
+  /** Timeline points set, wiped ones excluded. */
+  recordsSet: number
+  /** Days holding any record, summed over every record set. */
+  daysHeld: number
+  longestReign: number
+  /** Every unwiped record behind the numbers, newest first. */
+  records: LeaderboardRecord[]
+}
+
+export type Leaderboard = {
+  className: 'Solly' | 'Demo'
+  entries: LeaderboardEntry[]
+}
+
+export type RivalPlayer = {
+  key: string
+  /** The name on the player's most recent record. */
+  name: string
+  /** WRs held now, per class. */
+  current: Record<'Solly' | 'Demo', { maps: number; zones: number }>
+  /** Timeline points set, wiped ones excluded. */
+  recordsSet: number
+}
+
+/** A map or zone where both players have held the WR. */
+export type RivalSegment = {
+  map: string
+  className: 'Solly' | 'Demo'
+  zone: ZoneInfo | null
+  /** Records each player set here, in the order of `HeadToHead.players`. */
+  records: [number, number]
+  /** Which player holds the WR now, or `null` if someone else does. */
+  holder: 0 | 1 | null
+}
+
+export type RivalRecord = {
+  map: string
+  className: 'Solly' | 'Demo'
+  zone: ZoneInfo | null
+  /** Which player set it, in the order of `HeadToHead.players`. */
+  player: 0 | 1
+  point: TimelinePoint
+  /** The record this one replaced when it belonged to the other player. */
+  takenFrom: TimelinePoint | null
+}
+
+export type HeadToHead = {
+  players: [RivalPlayer, RivalPlayer]
+  shared: RivalSegment[]
+  /** Every record either player set, oldest first. */
+  records: RivalRecord[]
+}
+
+export type CommunityPeriod = {
+  /** `YYYY` or `YYYY-MM`. */
+  period: string
+  /** Timeline points set in the period, wiped ones included: they were WRs when set. */
+  changes: Record<'Solly' | 'Demo', number>
+  /** Distinct players who set a WR in the period. */
+  holders: Record<'Solly' | 'Demo' | 'All', number>
+  evidence: Record<EvidenceKind, number>
+}
+
+export type CommunityStats = {
+  /** Every month from the first WR change to the last, quiet months included. */
+  months: CommunityPeriod[]
+  years: CommunityPeriod[]
+  /** WR changes per `YYYY-MM-DD`, both classes. */
+  days: Record<string, number>
+}
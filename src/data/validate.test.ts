@@ -0,0 +1,129 @@
+import { describe, expect, it } from 'vitest'
+import { readFixture } from '../test/fixtures.ts'
+import { formatCsv, parseCsv } from './csv.ts'
+import { CSV_HEADERS } from './types.ts'
+import { validateCsvFile, validateMapMetadata } from './validate.ts'
+
+const BOMB = 'wr_history_jump_bomb_Demo.csv'
+const bomb = readFixture(BOMB)
+const [first, second] = parseCsv(bomb)
+
+const validate = (rows: Array<Record<string, string>>, file = BOMB) =>
+  validateCsvFile(file, formatCsv(CSV_HEADERS, rows))
+
+const codes = (rows: Array<Record<string, string>>) => validate(rows).map((issue) => issue.code)
+
+describe('validateCsvFile', () => {
+  it('passes shipped files', () => {
+    const holers = 'wr_history_jump_4holers_Solly.csv'
+    expect(validateCsvFile(BOMB, bomb)).toEqual([])
+    expect(validateCsvFile(holers, readFixture(holers))).toMatchObject([
+      { code: 'order-repeat', severity: 'warning', row: 3 }
+    ])
+  })
+
+  it('checks the file name and headers', () => {
+    expect(validateCsvFile('jump_bomb.csv', bomb).map((issue) => issue.code)).toEqual([
+      'file-name'
+    ])
+    const [issue] = validateCsvFile(BOMB, 'date,player,extra\n')
+    expect(issue).toMatchObject({ code: 'headers', severity: 'error' })
+    expect(issue.message).toContain('missing record_time')
+    expect(issue.message).toContain('unexpected extra')
+  })
+
+  it('reports bad fields on the row they appear in', () => {
+    const issues = validate([
+      first,
+      {
+        ...second,
+        map: 'jump_beef',
+        date: '2014-02-31x',
+        record_time: 'fast',
+        split: '-?',
+        evidence: 'rumour'
+      }
+    ])
+    expect(issues.map((issue) => [issue.row, issue.code])).toEqual([
+      [2, 'map-mismatch'],
+      [2, 'date'],
+      [2, 'record-time'],
+      [2, 'split'],
+      [2, 'evidence'],
+      [2, 'demo-id']
+    ])
+  })
+
+  it('rejects dates that do not exist', () => {
+    expect(codes([first, { ...second, date: '2023-02-31' }])).toEqual(['date'])
+    expect(codes([first, { ...second, date: '2024-02-29' }])).toEqual([])
+  })
+
+  it('checks each timeline is monotonic', () => {
+    expect(codes([second, first])).toEqual(['order-date'])
+    expect(codes([first, { ...second, record_time: '05:00.00' }])).toEqual([])
+    expect(
+      codes([first, { ...second, record_time: '05:00.00', evidence: 'command', demo_id: '' }])
+    ).toEqual(['order-time'])
+    const [merged] = validate([first, { ...first, date: second.date }])
+    expect(merged).toMatchObject({ code: 'order-repeat', severity: 'warning', row: 2 })
+    expect(merged.message).toContain('merges the two into one point')
+    const [tie] = validate([first, { ...second, record_time: first.record_time }])
+    expect(tie).toMatchObject({ code: 'order-repeat', severity: 'warning', row: 2 })
+    expect(tie.message).toContain('keeps that one')
+  })
+
+  it('groups segments the way the timelines do', () => {
+    const bonus = { ...first, segment: 'Bonus 3', evidence: 'command', demo_id: '' }
+    const slower = { ...bonus, date: second.date, segment: 'bonus 3', record_time: '09:00.00' }
+    expect(codes([bonus, slower])).toEqual(['order-time'])
+    expect(codes([bonus, { ...slower, segment: 'Bonus 2' }])).toEqual([])
+  })
+})
+
+describe('validateMapMetadata', () => {
+  const FILE = 'map-metadata.json'
+  const classes = { jump_bomb: ['Demo'], rj_example: ['Solly', 'Demo'] }
+  const check = (value: unknown) =>
+    validateMapMetadata(FILE, value, classes).map((issue) => [issue.severity, issue.code])
+
+  it('accepts known maps with valid fields', () => {
+    expect(
+      check({
+        jump_bomb: { tiers: { Demo: 4 }, rating: 2, author: 'someone' },
+        rj_example: { type: 'rj' }
+      })
+    ).toEqual([])
+  })
+
+  it('rejects anything but an object of objects', () => {
+    expect(check([])).toEqual([['error', 'metadata']])
+    expect(check({ jump_bomb: 'tier 4' })).toEqual([['error', 'metadata']])
+  })
+
+  it('warns about unknown fields', () => {
+    const [issue] = validateMapMetadata(FILE, { jump_bomb: { tier: 4 } }, classes)
+    expect(issue).toMatchObject({ severity: 'warning', code: 'metadata-field', value: 'jump_bomb' })
+    expect(issue.message).toContain('unknown field tier')
+  })
+
+  it('reports bad values', () => {
+    expect(
+      check({
+        jump_bomb: { tiers: { Demo: 11, Pyro: 1 }, rating: -1, author: ' ', type: 'bhop' }
+      })
+    ).toEqual([
+      ['error', 'metadata-tier'],
+      ['error', 'metadata-tier'],
+      ['error', 'metadata-rating'],
+      ['error', 'metadata-author'],
+      ['error', 'metadata-type']
+    ])
+    expect(check({ jump_bomb: { tiers: 4 } })).toEqual([['error', 'metadata-tier']])
+  })
+
+  it('checks maps and tiers against the CSVs', () => {
+    expect(check({ jump_beef: {} })).toEqual([['error', 'metadata-map']])
+    expect(check({ jump_bomb: { tiers: { Solly: 2 } } })).toEqual([['warning', 'metadata-class']])
+  })
+})
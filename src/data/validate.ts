@@ -0,0 +1,245 @@
+import { parseCsv, parseCsvRows } from './csv.ts'
+import { isIsoDate } from './dates.ts'
+import { parseDataFileName } from './files.ts'
+import type { PlayerOverride } from './identity.ts'
+import { MAP_TYPE, MAX_MAP_TIER, type MapMetadata } from './maps.ts'
+import { isSameRun } from './reconcile.ts'
+import { parseSteamId64 } from './steam.ts'
+import { parseSignedTimeToSeconds, parseTimeToSeconds } from './time.ts'
+import { isWipeBoundaryTrigger } from './timeline.ts'
+import { CSV_HEADERS, EVIDENCE_KIND, type CsvRow } from './types.ts'
+import { getSegmentKey } from './zones.ts'
+
+export type ValidationSeverity = 'error' | 'warning'
+
+export type ValidationIssue = {
+  severity: ValidationSeverity
+  code: string
+  file: string
+  /** 1-based data row (the header is row 0); omitted for file-level issues. */
+  row?: number
+  field?: keyof CsvRow
+  value?: string
+  message: string
+}
+
+const EPSILON = 0.0001
+const EVIDENCE_KINDS = new Set<string>(Object.values(EVIDENCE_KIND))
+
+export function validateCsvFile(file: string, text: string): ValidationIssue[] {
+  const issues: ValidationIssue[] = []
+  const report = (issue: Omit<ValidationIssue, 'file'>) => issues.push({ file, ...issue })
+
+  const parsedName = parseDataFileName(file)
+  if (!parsedName) {
+    report({
+      severity: 'error',
+      code: 'file-name',
+      message: 'File name does not match wr_history_<map>_<Solly|Demo>.csv'
+    })
+  }
+
+  const headers = parseCsvRows(text)[0] ?? []
+  const missing = CSV_HEADERS.filter((header) => !headers.includes(header))
+  const known = new Set<string>(CSV_HEADERS)
+  const unexpected = headers.filter((header) => !known.has(header))
+  if (missing.length > 0 || unexpected.length > 0) {
+    report({
+      severity: 'error',
+      code: 'headers',
+      value: headers.join(','),
+      message: [
+        missing.length > 0 ? `missing ${missing.join(', ')}` : '',
+        unexpected.length > 0 ? `unexpected ${unexpected.join(', ')}` : ''
+      ]
+        .filter(Boolean)
+        .join('; ')
+    })
+    return issues
+  }
+
+  // Last accepted row per timeline, to check the README's monotonic guarantee.
+  const previousBySegment = new Map<
+    string,
+    { date: string; seconds: number; row: number; data: CsvRow }
+  >()
+
+  parseCsv(text).forEach((data, index) => {
+    const row = index + 1
+    const field = (name: keyof CsvRow, code: string, message: string) =>
+      report({ severity: 'error', code, row, field: name, value: data[name], message })
+
+    if (parsedName && data.map !== parsedName.map) {
+      field('map', 'map-mismatch', `Expected map ${parsedName.map} from the file name`)
+    }
+
+    const dateValid = isIsoDate(data.date)
+    if (!dateValid) {
+      field('date', 'date', 'Date is not a valid YYYY-MM-DD date')
+    }
+
+    const seconds = parseTimeToSeconds(data.record_time)
+    if (seconds == null) {
+      field('record_time', 'record-time', 'record_time does not parse as a time')
+    }
+
+    if (data.split && parseSignedTimeToSeconds(data.split) == null) {
+      field('split', 'split', 'split does not parse as a signed time')
+    }
+
+    if (data.improvement && parseSignedTimeToSeconds(data.improvement) == null) {
+      field('improvement', 'improvement', 'improvement does not parse as a time')
+    }
+
+    if (!EVIDENCE_KINDS.has(data.evidence)) {
+      const kinds = Array.from(EVIDENCE_KINDS).join(', ')
+      field('evidence', 'evidence', `evidence must be one of ${kinds}`)
+    }
+
+    if (data.demo_id && data.evidence !== EVIDENCE_KIND.Record) {
+      field('demo_id', 'demo-id', 'demo_id is only expected for evidence=record')
+    }
+
+    if (!dateValid || seconds == null) return
+
+    // Keyed like the timelines, so `Bonus 1` and `bonus 1` are checked as one sequence.
+    const segment = getSegmentKey(data)
+    const previous = previousBySegment.get(segment)
+    previousBySegment.set(segment, { date: data.date, seconds, row, data })
+    if (!previous) return
+
+    if (data.date < previous.date) {
+      field('date', 'order-date', `Date goes backwards from row ${previous.row} (${previous.date})`)
+    } else if (seconds > previous.seconds + EPSILON && !isWipeBoundaryTrigger(data)) {
+      // Slower times are only expected where the timeline infers a wipe.
+      field(
+        'record_time',
+        'order-time',
+        `Slower than row ${previous.row} without record or irc_set evidence to mark a wipe`
+      )
+    } else if (Math.abs(seconds - previous.seconds) <= EPSILON) {
+      report({
+        severity: 'warning',
+        code: 'order-repeat',
+        row,
+        field: 'record_time',
+        value: data.record_time,
+        message: isSameRun(previous.data, data)
+          ? `Repeats the run from row ${previous.row}; the timeline merges the two into one point`
+          : `Ties the time from row ${previous.row} with another run; the timeline keeps that one`
+      })
+    }
+  })
+
+  return issues
+}
+
+/** Checks `player-overrides.json`; `row` is the 1-based entry in the list. */
+export function validatePlayerOverrides(file: string, value: unknown): ValidationIssue[] {
+  if (!Array.isArray(value)) {
+    return [{ severity: 'error', code: 'overrides', file, message: 'Expected a list of overrides' }]
+  }
+
+  const issues: ValidationIssue[] = []
+  const seen = new Map<string, number>()
+  value.forEach((entry: Partial<Record<keyof PlayerOverride, unknown>>, index) => {
+    const row = index + 1
+    const name = typeof entry?.name === 'string' ? entry.name.trim() : ''
+    if (!name) {
+      issues.push({ severity: 'error', code: 'override-name', file, row, message: 'name is empty' })
+      return
+    }
+    const steamId = typeof entry.steamId64 === 'string' ? entry.steamId64 : ''
+    if (!parseSteamId64(steamId)) {
+      issues.push({
+        severity: 'error',
+        code: 'override-steam-id',
+        file,
+        row,
+        value: steamId,
+        message: `steamId64 for ${name} is not a Steam ID`
+      })
+    }
+    const previous = seen.get(name.toLowerCase())
+    if (previous != null) {
+      issues.push({
+        severity: 'error',
+        code: 'override-duplicate',
+        file,
+        row,
+        value: name,
+        message: `Overrides ${name} again after entry ${previous}`
+      })
+    }
+    seen.set(name.toLowerCase(), row)
+  })
+  return issues
+}
+
+/**
+ * Checks `map-metadata.json` against the maps that have data; `classes` lists the classes with a
+ * CSV for each map. Issues carry the map name as their value.
+ */
+export function validateMapMetadata(
+  file: string,
+  value: unknown,
+  classes: Record<string, string[]>
+): ValidationIssue[] {
+  if (typeof value !== 'object' || value == null || Array.isArray(value)) {
+    return [
+      { severity: 'error', code: 'metadata', file, message: 'Expected an object keyed by map' }
+    ]
+  }
+
+  const issues: ValidationIssue[] = []
+  const types = Object.values(MAP_TYPE) as string[]
+  for (const [map, entry] of Object.entries(value as Record<string, unknown>)) {
+    const report = (code: string, message: string, severity: ValidationSeverity = 'error') =>
+      issues.push({ severity, code, file, value: map, message })
+    if (!Object.hasOwn(classes, map)) {
+      report('metadata-map', `${map} has no WR history CSV`)
+      continue
+    }
+    if (typeof entry !== 'object' || entry == null || Array.isArray(entry)) {
+      report('metadata', `Metadata for ${map} is not an object`)
+      continue
+    }
+
+    const { tiers, rating, author, type, ...rest } = entry as Partial<
+      Record<keyof MapMetadata, unknown>
+    >
+    for (const field of Object.keys(rest)) {
+      report('metadata-field', `${map} has unknown field ${field}`, 'warning')
+    }
+    if (tiers !== undefined) {
+      if (typeof tiers !== 'object' || tiers == null || Array.isArray(tiers)) {
+        report('metadata-tier', `tiers for ${map} must map Solly and Demo to a tier`)
+      } else {
+        for (const [className, tier] of Object.entries(tiers)) {
+          if (className !== 'Solly' && className !== 'Demo') {
+            report('metadata-tier', `tiers for ${map} lists unknown class ${className}`)
+          } else if (!isTier(tier)) {
+            report('metadata-tier', `${className} tier for ${map} must be 1 to ${MAX_MAP_TIER}`)
+          } else if (!classes[map].includes(className)) {
+            const message = `${map} has a ${className} tier but no ${className} CSV`
+            report('metadata-class', message, 'warning')
+          }
+        }
+      }
+    }
+    if (rating !== undefined && (typeof rating !== 'number' || !(rating >= 0))) {
+      report('metadata-rating', `rating for ${map} must be a non-negative number`)
+    }
+    if (author !== undefined && (typeof author !== 'string' || !author.trim())) {
+      report('metadata-author', `author for ${map} must be a non-empty string`)
+    }
+    if (type !== undefined && !types.includes(type as string)) {
+      report('metadata-type', `type for ${map} must be one of ${types.join(', ')}`)
+    }
+  }
+  return issues
+}
+
+function isTier(value: unknown) {
+  return Number.isInteger(value) && (value as number) >= 1 && (value as number) <= MAX_MAP_TIER
+}
@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest'
+import { loadFixture } from '../test/fixtures.ts'
+import type { DataFile } from './types.ts'
+import { buildWorldSnapshot } from './world.ts'
+
+const files: DataFile[] = [
+  { map: 'jump_bomb', className: 'Demo', rows: loadFixture('wr_history_jump_bomb_Demo.csv') },
+  {
+    map: 'jump_4holers',
+    className: 'Solly',
+    rows: loadFixture('wr_history_jump_4holers_Solly.csv')
+  }
+]
+
+const snapshot = (date: string, includeZones = false) =>
+  buildWorldSnapshot(files, { date, className: 'Demo', includeZones })
+
+describe('buildWorldSnapshot', () => {
+  it('takes the record that stood at the end of the date', () => {
+    const [record] = snapshot('2014-08-09').records
+    expect(record).toMatchObject({ map: 'jump_bomb', zone: null })
+    expect(record.point).toMatchObject({ record_time: '04:15.77', player: 'cody' })
+    expect(snapshot('2014-08-08').records[0].point.player).toBe('alle')
+    expect(snapshot('2014-08-01').records).toEqual([])
+  })
+
+  it('counts held days through the end of the date', () => {
+    expect(snapshot('2014-08-09').records[0].days).toBe(1)
+    expect(snapshot('2014-08-08').records[0].days).toBe(7)
+  })
+
+  it('only applies a wipe once the record that revealed it was set', () => {
+    expect(snapshot('2015-06-20').records[0].point).toMatchObject({
+      record_time: '03:53.74',
+      wiped: false
+    })
+    expect(snapshot('2015-06-21').records[0].point).toMatchObject({
+      record_time: '03:53.93',
+      wipedBoundary: true
+    })
+  })
+
+  it('keeps to the class and only adds zones when asked', () => {
+    const { records } = snapshot('2025-01-01')
+    expect(records.map((record) => record.map)).toEqual(['jump_bomb'])
+    const zoned = snapshot('2025-01-01', true).records
+    expect(zoned[0].zone).toBeNull()
+    expect(zoned.slice(1).every((record) => record.zone != null)).toBe(true)
+  })
+
+  it('ranks holders by records, then map records', () => {
+    const { holders } = snapshot('2025-01-01', true)
+    const total = holders.reduce((sum, holder) => sum + holder.records, 0)
+    expect(total).toBe(snapshot('2025-01-01', true).records.length)
+    for (let i = 1; i < holders.length; i++) {
+      const [a, b] = [holders[i - 1], holders[i]]
+      expect(a.records > b.records || (a.records === b.records && a.mapRecords >= b.mapRecords))
+        .toBe(true)
+    }
+    expect(holders.find((holder) => holder.mapRecords === 1)?.name).toBe('soup -tt')
+  })
+})
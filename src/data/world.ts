@@ -0,0 +1,76 @@
+import { resolvePlayer, type PlayerDirectory } from './identity.ts'
+import { buildZoneTimelines } from './timeline.ts'
+import type { DataFile, RecordHolder, WorldRecord, WorldSnapshot } from './types.ts'
+import { compareZones } from './zones.ts'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export type WorldSnapshotOptions = {
+  /** `YYYY-MM-DD`; rows dated later are ignored. */
+  date: string
+  className: 'Solly' | 'Demo'
+  includeZones: boolean
+}
+
+/**
+ * Every WR as it stood at the end of `date`. Timelines are rebuilt from the rows known by then,
+ * so a wipe only counts once the record that revealed it had been set.
+ */
+export function buildWorldSnapshot(
+  files: DataFile[],
+  options: WorldSnapshotOptions,
+  directory?: PlayerDirectory | null
+): WorldSnapshot {
+  // Reigns run to the end of the day, so a record set on `date` has stood for one day.
+  const cutoff = Date.parse(options.date) + DAY_MS
+  const records: WorldRecord[] = []
+
+  for (const file of files) {
+    if (file.className !== options.className) continue
+    const rows = file.rows.filter((row) => row.date && row.date <= options.date)
+    for (const { zone, timeline } of buildZoneTimelines(rows)) {
+      if (zone && !options.includeZones) continue
+      const point = timeline[timeline.length - 1]
+      if (!point) continue
+      records.push({
+        map: file.map,
+        className: file.className,
+        zone,
+        point,
+        days: Math.max(0, cutoff - point.dateValue) / DAY_MS
+      })
+    }
+  }
+
+  records.sort((a, b) => {
+    if (a.map !== b.map) return a.map.localeCompare(b.map)
+    if (!a.zone || !b.zone) return a.zone ? 1 : b.zone ? -1 : 0
+    return compareZones(a.zone, b.zone)
+  })
+
+  const holders = new Map<string, RecordHolder>()
+  const nameDates = new Map<string, string>()
+  for (const { zone, point } of records) {
+    const player = resolvePlayer(point, directory)
+    if (!player) continue
+    const { key } = player
+    const holder = holders.get(key) ?? { key, name: player.name, records: 0, mapRecords: 0 }
+    holder.records++
+    if (!zone) holder.mapRecords++
+    if (point.date >= (nameDates.get(key) ?? '')) {
+      holder.name = player.name
+      nameDates.set(key, point.date)
+    }
+    holders.set(key, holder)
+  }
+
+  return {
+    date: options.date,
+    className: options.className,
+    records,
+    holders: Array.from(holders.values()).sort(
+      (a, b) =>
+        b.records - a.records || b.mapRecords - a.mapRecords || a.name.localeCompare(b.name)
+    )
+  }
+}
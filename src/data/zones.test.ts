@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest'
+import { loadFixture } from '../test/fixtures.ts'
+import { compareZones, getSegmentKey, getZoneInfo, groupRowsByZone } from './zones.ts'
+
+describe('getZoneInfo', () => {
+  it('reads bonuses, courses and segments', () => {
+    expect(getZoneInfo('Bonus 3')).toEqual({
+      id: 'bonus-3',
+      label: 'Bonus 3',
+      kind: 'bonus',
+      order: 3
+    })
+    expect(getZoneInfo('course 2')).toMatchObject({ id: 'course-2', kind: 'course', order: 2 })
+    expect(getZoneInfo('C4 - Wall First')).toEqual({
+      id: 'segment-4',
+      label: 'C4 - Wall',
+      kind: 'segment',
+      order: 4
+    })
+    expect(getZoneInfo('C5')).toMatchObject({ id: 'segment-5', label: 'C5' })
+  })
+
+  it('treats the map run and blanks as no zone', () => {
+    expect(getZoneInfo('Map')).toBeNull()
+    expect(getZoneInfo('  ')).toBeNull()
+    expect(getSegmentKey({ segment: 'Map' })).toBe('Map')
+    expect(getSegmentKey({ segment: 'Bonus 1' })).toBe('bonus-1')
+  })
+})
+
+describe('groupRowsByZone', () => {
+  it('splits a shipped file into the map run and its bonuses', () => {
+    const groups = groupRowsByZone(loadFixture('wr_history_jump_bomb_Demo.csv'))
+    const zones = groups
+      .map((group) => group.zone)
+      .filter((zone) => zone != null)
+      .sort(compareZones)
+    expect(zones.map((zone) => zone.id)).toEqual(['bonus-1', 'bonus-2', 'bonus-3'])
+    expect(groups.find((group) => group.zone == null)?.rows).toHaveLength(12)
+  })
+})
@@ -0,0 +1,80 @@
+import { SEGMENT_LABEL, type CsvRow, type ZoneInfo } from './types.ts'
+
+export function getZoneInfo(source: string): ZoneInfo | null {
+  if (!source) return null
+  const trimmed = source.trim()
+  if (!trimmed) return null
+
+  const bonusMatch = trimmed.match(/^Bonus\s+(\d+)/i)
+  if (bonusMatch) {
+    const order = Number.parseInt(bonusMatch[1], 10)
+    return { id: `bonus-${order}`, label: `Bonus ${order}`, kind: 'bonus', order }
+  }
+
+  const courseMatch = trimmed.match(/^Course\s+(\d+)/i)
+  if (courseMatch) {
+    const order = Number.parseInt(courseMatch[1], 10)
+    return { id: `course-${order}`, label: `Course ${order}`, kind: 'course', order }
+  }
+
+  const segmentMatch = trimmed.match(/^C(\d+)\s*-\s*(.+)$/i)
+  if (segmentMatch) {
+    const order = Number.parseInt(segmentMatch[1], 10)
+    const name = sanitizeSegmentName(segmentMatch[2])
+    const label = name ? `C${order} - ${name}` : `C${order}`
+    return { id: `segment-${order}`, label, kind: 'segment', order }
+  }
+
+  const segmentIndexMatch = trimmed.match(/^C(\d+)/i)
+  if (segmentIndexMatch) {
+    const order = Number.parseInt(segmentIndexMatch[1], 10)
+    return { id: `segment-${order}`, label: `C${order}`, kind: 'segment', order }
+  }
+
+  return null
+}
+
+function sanitizeSegmentName(value: string) {
+  const trimmed = value.trim()
+  return trimmed.replace(/\s+First$/i, '').trim()
+}
+
+export function compareZones(left: ZoneInfo, right: ZoneInfo) {
+  const rank = (zone: ZoneInfo) => {
+    switch (zone.kind) {
+      case 'bonus':
+        return 0
+      case 'course':
+        return 1
+      case 'segment':
+        return 2
+      default:
+        return 99
+    }
+  }
+
+  const rankDiff = rank(left) - rank(right)
+  if (rankDiff !== 0) return rankDiff
+  return left.order - right.order
+}
+
+/** Key of the timeline a row belongs to: `Map` for map runs, otherwise the zone id. */
+export function getSegmentKey(row: Pick<CsvRow, 'segment'>) {
+  return getZoneInfo(row.segment)?.id ?? SEGMENT_LABEL.Map
+}
+
+export function groupRowsByZone(rows: CsvRow[]) {
+  // Rows without zone info belong to the map timeline, matching the app's Map view.
+  const groups = new Map<string, { zone: ZoneInfo | null; rows: CsvRow[] }>()
+  for (const row of rows) {
+    const zone = getZoneInfo(row.segment)
+    const key = zone?.id ?? SEGMENT_LABEL.Map
+    const group = groups.get(key)
+    if (group) {
+      group.rows.push(row)
+    } else {
+      groups.set(key, { zone, rows: [row] })
+    }
+  }
+  return Array.from(groups.values())
+}
@@ -0,0 +1,166 @@
+import { CSV_HEADERS, formatCsv, type TimelinePoint } from './data/index.ts'
+
+export type ExportSeries = {
+  label: string
+  color: string
+  points: TimelinePoint[]
+}
+
+export type ChartExportOptions = {
+  title: string
+  subtitle: string
+  xLabel: string
+  yLabel: string
+  series: ExportSeries[]
+}
+
+export type ChartImage = {
+  text: string
+  width: number
+  height: number
+}
+
+const TIMELINE_EXPORT_FIELDS = [
+  'series',
+  ...CSV_HEADERS,
+  'dateValue',
+  'recordSeconds',
+  'wiped',
+  'wipedBoundary',
+] as const
+
+// Room around the live chart for the title, y-axis label and legend.
+const EXPORT_MARGIN = { top: 60, left: 28, bottom: 40 } as const
+const PNG_SCALE = 2
+// The page background is a gradient; exports use its middle stop so they look the same pasted anywhere.
+const EXPORT_BACKGROUND = '#f7efe4'
+
+function flattenSeries(series: ExportSeries[]) {
+  return series.flatMap((item) =>
+    item.points.map((point) => {
+      const row: Record<string, unknown> = { series: item.label }
+      for (const field of TIMELINE_EXPORT_FIELDS) {
+        if (field !== 'series') row[field] = point[field]
+      }
+      return row
+    })
+  )
+}
+
+export function timelineToJson(series: ExportSeries[]) {
+  return JSON.stringify(flattenSeries(series), null, 2)
+}
+
+export function timelineToCsv(series: ExportSeries[]) {
+  return formatCsv(TIMELINE_EXPORT_FIELDS, flattenSeries(series))
+}
+
+/**
+ * Turns the live chart into a standalone SVG: interactive layers are dropped, CSS variables are
+ * resolved to colours, and the title, axis labels and legend are drawn into the image.
+ */
+export function buildChartSvg(svg: SVGSVGElement, options: ChartExportOptions): ChartImage {
+  const { width: chartWidth, height: chartHeight } = svg.viewBox.baseVal
+  const width = chartWidth + EXPORT_MARGIN.left
+  const height = chartHeight + EXPORT_MARGIN.top + EXPORT_MARGIN.bottom
+  const styles = getComputedStyle(document.documentElement)
+  const resolve = (value: string) =>
+    value.replace(/var\((--[\w-]+)\)/g, (_match, name: string) =>
+      styles.getPropertyValue(name).trim()
+    )
+
+  const clone = svg.cloneNode(true) as SVGSVGElement
+  clone.querySelectorAll('.chart-brush-area').forEach((element) => element.remove())
+  clone.querySelectorAll('*').forEach((element) => {
+    for (const attribute of ['fill', 'stroke']) {
+      const value = element.getAttribute(attribute)
+      if (value?.includes('var(')) element.setAttribute(attribute, resolve(value))
+    }
+  })
+  const serializer = new XMLSerializer()
+  const plot = Array.from(clone.childNodes)
+    .map((node) => serializer.serializeToString(node))
+    .join('')
+
+  const ink = resolve('var(--ink)')
+  const muted = resolve('var(--muted)')
+  const legendY = EXPORT_MARGIN.top + chartHeight + 24
+  let legendX = EXPORT_MARGIN.left + 48
+  const legend = options.series
+    .map((item) => {
+      const entry =
+        `<circle cx="${legendX}" cy="${legendY - 4}" r="5" fill="${escapeXml(resolve(item.color))}"/>` +
+        `<text x="${legendX + 10}" y="${legendY}" fill="${ink}">${escapeXml(item.label)}</text>`
+      // No text metrics outside the DOM; an average glyph width is close enough for short labels.
+      legendX += 30 + item.label.length * 7
+      return entry
+    })
+    .join('')
+
+  const text = [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}"`,
+    ` viewBox="0 0 ${width} ${height}"`,
+    ` font-family="${escapeXml(resolve(styles.getPropertyValue('--font-body')))}">`,
+    `<rect width="${width}" height="${height}" fill="${EXPORT_BACKGROUND}"/>`,
+    `<text x="${EXPORT_MARGIN.left + 48}" y="28" font-size="18" font-weight="700" fill="${ink}">`,
+    `${escapeXml(options.title)}</text>`,
+    `<text x="${EXPORT_MARGIN.left + 48}" y="48" font-size="12" fill="${muted}">`,
+    `${escapeXml(options.subtitle)}</text>`,
+    `<g transform="translate(${EXPORT_MARGIN.left} ${EXPORT_MARGIN.top})">${plot}</g>`,
+    `<text transform="rotate(-90)" x="${-(EXPORT_MARGIN.top + chartHeight / 2)}" y="16"`,
+    ` font-size="12" text-anchor="middle" fill="${muted}">${escapeXml(options.yLabel)}</text>`,
+    `<text x="${EXPORT_MARGIN.left + chartWidth / 2}" y="${EXPORT_MARGIN.top + chartHeight - 6}"`,
+    ` font-size="12" text-anchor="middle" fill="${muted}">${escapeXml(options.xLabel)}</text>`,
+    `<g font-size="12">${legend}</g>`,
+    '</svg>',
+  ].join('')
+
+  return { text, width, height }
+}
+
+export function renderChartPng(image: ChartImage): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(new Blob([image.text], { type: 'image/svg+xml' }))
+    const element = new Image()
+    element.onload = () => {
+      URL.revokeObjectURL(url)
+      const canvas = document.createElement('canvas')
+      canvas.width = image.width * PNG_SCALE
+      canvas.height = image.height * PNG_SCALE
+      const context = canvas.getContext('2d')
+      if (!context) {
+        reject(new Error('Canvas is not available.'))
+        return
+      }
+      context.scale(PNG_SCALE, PNG_SCALE)
+      context.drawImage(element, 0, 0, image.width, image.height)
+      canvas.toBlob((blob) => {
+        if (blob) resolve(blob)
+        else reject(new Error('Could not encode the PNG.'))
+      }, 'image/png')
+    }
+    element.onerror = () => {
+      URL.revokeObjectURL(url)
+      reject(new Error('Could not render the chart.'))
+    }
+    element.src = url
+  })
+}
+
+export function downloadBlob(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = fileName
+  link.click()
+  // Give the browser a moment to start the download before the URL goes away.
+  setTimeout(() => URL.revokeObjectURL(url), 1000)
+}
+
+function escapeXml(value: string) {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
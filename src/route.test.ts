@@ -0,0 +1,106 @@
+import { describe, expect, it } from 'vitest'
+import { EVIDENCE_KIND } from './data/index.ts'
+import { formatRoute, HOME_ROUTE, PAGE, parseRoute, VIEW_MODE, type Route } from './route.ts'
+
+describe('parseRoute', () => {
+  it('reads an empty hash as the home route', () => {
+    expect(parseRoute('')).toEqual(HOME_ROUTE)
+    expect(parseRoute('#')).toEqual(HOME_ROUTE)
+  })
+
+  it('reads every param', () => {
+    const route = parseRoute(
+      [
+        '#map=jump_bomb&class=Demo&view=zones&zone=bonus-3&compare=1&page=activity',
+        'player=76561198040983512&from=2019-01-01&to=2020-12-31&evidence=record,bogus',
+        'wiped=hide&name=soup&inference=off&at=2021-03-11'
+      ].join('&')
+    )
+    expect(route).toEqual({
+      ...HOME_ROUTE,
+      page: PAGE.Activity,
+      map: 'jump_bomb',
+      className: 'Demo',
+      view: VIEW_MODE.Zones,
+      zone: 'bonus-3',
+      compare: true,
+      player: '76561198040983512',
+      filter: {
+        from: '2019-01-01',
+        to: '2020-12-31',
+        evidence: [EVIDENCE_KIND.Record],
+        hideWiped: true,
+        player: 'soup'
+      },
+      inferWipes: false,
+      date: '2021-03-11'
+    })
+  })
+
+  it('only reads a zone in the zones view', () => {
+    expect(parseRoute('#map=jump_bomb&zone=bonus-3').zone).toBeNull()
+  })
+
+  it('collects values it cannot read', () => {
+    const route = parseRoute('#class=Pyro&page=nope&view=3d&at=yesterday')
+    expect(route.invalid).toEqual([
+      { param: 'view', value: '3d' },
+      { param: 'class', value: 'Pyro' },
+      { param: 'at', value: 'yesterday' },
+      { param: 'page', value: 'nope' }
+    ])
+    expect(route).toMatchObject({ page: PAGE.Maps, className: null, view: VIEW_MODE.Map })
+  })
+
+  it('rejects dates that do not exist', () => {
+    expect(parseRoute('#at=2023-02-31')).toMatchObject({
+      date: null,
+      invalid: [{ param: 'at', value: '2023-02-31' }]
+    })
+    expect(parseRoute('#at=2024-02-29').date).toBe('2024-02-29')
+    expect(parseRoute('#from=2023-13-45&to=2023-04-31').filter).toMatchObject({
+      from: null,
+      to: null
+    })
+  })
+
+  it('keeps at most two distinct head-to-head players', () => {
+    expect(parseRoute('#page=versus&vs=a&vs=&vs=b&vs=c').versus).toEqual(['a', 'b'])
+    expect(parseRoute('#page=versus&vs=a&vs=a&vs=b').versus).toEqual(['a', 'b'])
+    expect(parseRoute('#page=versus&vs=a&vs=a').versus).toEqual(['a'])
+  })
+})
+
+describe('formatRoute', () => {
+  it('writes the home route as an empty hash', () => {
+    expect(formatRoute(HOME_ROUTE)).toBe('')
+  })
+
+  it('keeps the param order of older links', () => {
+    const route: Route = {
+      ...HOME_ROUTE,
+      map: 'jump_bomb',
+      className: 'Demo',
+      view: VIEW_MODE.Zones,
+      zone: 'bonus-3'
+    }
+    expect(formatRoute(route)).toBe('#map=jump_bomb&class=Demo&view=zones&zone=bonus-3')
+  })
+
+  it('round-trips through parseRoute', () => {
+    const hashes = [
+      '#map=jump_bomb&class=Solly&compare=1&from=2019-01-01&evidence=record%2Ccommand&name=soup',
+      '#page=snapshot&inference=off&at=2020-05-10',
+      '#page=versus&vs=76561198040983512&vs=name%3AKatto+-rng',
+      '#map=jump_4holers&view=zones&zone=bonus-5&player=name%3Aarcade&wiped=hide'
+    ]
+    for (const hash of hashes) {
+      expect(formatRoute(parseRoute(hash))).toBe(hash)
+    }
+  })
+
+  it('trims the name filter', () => {
+    const route = { ...HOME_ROUTE, filter: { ...HOME_ROUTE.filter, player: '  soup ' } }
+    expect(formatRoute(route)).toBe('#name=soup')
+  })
+})
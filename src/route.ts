@@ -0,0 +1,162 @@
+import {
+  EMPTY_TIMELINE_FILTER,
+  EVIDENCE_KIND,
+  isIsoDate,
+  type EvidenceKind,
+  type TimelineFilter
+} from './data/index.ts'
+
+// No React here: `scripts/build-feeds.mjs` builds its deep links with `formatRoute`.
+
+export const URL_PARAM = {
+  Map: 'map',
+  Class: 'class',
+  View: 'view',
+  Zone: 'zone',
+  Player: 'player',
+  Page: 'page',
+  Compare: 'compare',
+  From: 'from',
+  To: 'to',
+  Evidence: 'evidence',
+  Wiped: 'wiped',
+  Name: 'name',
+  Inference: 'inference',
+  Date: 'at',
+  Versus: 'vs',
+} as const
+
+export const VIEW_MODE = {
+  Map: 'map',
+  Zones: 'zones',
+} as const
+
+export type ViewMode = (typeof VIEW_MODE)[keyof typeof VIEW_MODE]
+
+export const PAGE = {
+  Maps: 'maps',
+  Activity: 'activity',
+  Snapshot: 'snapshot',
+  Leaderboards: 'leaderboards',
+  HeadToHead: 'versus',
+  Stats: 'stats',
+} as const
+
+export type Page = (typeof PAGE)[keyof typeof PAGE]
+
+/**
+ * Everything the hash can describe. A player route is drawn over the map or activity page it was
+ * opened from, so both live in one object rather than a union.
+ */
+export type Route = {
+  page: Page
+  /** `null` shows the first map in the index. */
+  map: string | null
+  /** `null` picks the map's default class, or Solly on the snapshot and leaderboard pages. */
+  className: 'Solly' | 'Demo' | null
+  /** The zones view also lists zone records on the snapshot page. */
+  view: ViewMode
+  /** Only read in the zones view; `null` shows the first zone. */
+  zone: string | null
+  compare: boolean
+  player: string | null
+  filter: TimelineFilter
+  /** `false` shows the raw sequence without inferred wipes. */
+  inferWipes: boolean
+  /** Snapshot date as `YYYY-MM-DD`; `null` is today. */
+  date: string | null
+  /** Player keys on the head-to-head page, at most two, in the order they were picked. */
+  versus: string[]
+  /** Params present in the hash with values this version cannot read, e.g. `class=Pyro`. */
+  invalid: Array<{ param: string; value: string }>
+}
+
+export const HOME_ROUTE: Route = {
+  page: PAGE.Maps,
+  map: null,
+  className: null,
+  view: VIEW_MODE.Map,
+  zone: null,
+  compare: false,
+  player: null,
+  filter: EMPTY_TIMELINE_FILTER,
+  inferWipes: true,
+  date: null,
+  versus: [],
+  invalid: []
+}
+
+export function parseRoute(hash: string): Route {
+  const params = new URLSearchParams(hash.replace(/^#/, ''))
+  const invalid: Route['invalid'] = []
+  const read = <T extends string>(param: string, values: readonly T[], fallback: T): T => {
+    const value = params.get(param)
+    if (value == null) return fallback
+    if ((values as readonly string[]).includes(value)) return value as T
+    invalid.push({ param, value })
+    return fallback
+  }
+
+  const view = read(URL_PARAM.View, Object.values(VIEW_MODE), VIEW_MODE.Map)
+  const className = read<'Solly' | 'Demo' | ''>(URL_PARAM.Class, ['Solly', 'Demo'], '')
+  const date = params.get(URL_PARAM.Date)
+  if (date != null && !isIsoDate(date)) invalid.push({ param: URL_PARAM.Date, value: date })
+  return {
+    page: read(URL_PARAM.Page, Object.values(PAGE), PAGE.Maps),
+    map: params.get(URL_PARAM.Map) || null,
+    className: className || null,
+    view,
+    zone: view === VIEW_MODE.Zones ? params.get(URL_PARAM.Zone) || null : null,
+    compare: params.get(URL_PARAM.Compare) === '1',
+    player: params.get(URL_PARAM.Player) || null,
+    filter: readTimelineFilter(params),
+    inferWipes: params.get(URL_PARAM.Inference) !== 'off',
+    date: date && isIsoDate(date) ? date : null,
+    versus: Array.from(new Set(params.getAll(URL_PARAM.Versus).filter(Boolean))).slice(0, 2),
+    invalid
+  }
+}
+
+/** Serialises a route to a hash, `''` for the home route. Param order matches older links. */
+export function formatRoute(route: Route) {
+  const params = new URLSearchParams()
+  if (route.map) params.set(URL_PARAM.Map, route.map)
+  if (route.className) params.set(URL_PARAM.Class, route.className)
+  if (route.view === VIEW_MODE.Zones) {
+    params.set(URL_PARAM.View, VIEW_MODE.Zones)
+    if (route.zone) params.set(URL_PARAM.Zone, route.zone)
+  }
+  if (route.compare) params.set(URL_PARAM.Compare, '1')
+  if (route.page !== PAGE.Maps) params.set(URL_PARAM.Page, route.page)
+  if (route.player) params.set(URL_PARAM.Player, route.player)
+  writeTimelineFilter(params, route.filter)
+  if (!route.inferWipes) params.set(URL_PARAM.Inference, 'off')
+  if (route.date) params.set(URL_PARAM.Date, route.date)
+  for (const key of route.versus) params.append(URL_PARAM.Versus, key)
+  const hash = params.toString()
+  return hash ? `#${hash}` : ''
+}
+
+function readTimelineFilter(params: URLSearchParams): TimelineFilter {
+  const date = (value: string | null) => (value && isIsoDate(value) ? value : null)
+  const kinds = Object.values(EVIDENCE_KIND) as string[]
+  const evidence = params.get(URL_PARAM.Evidence)
+  return {
+    from: date(params.get(URL_PARAM.From)),
+    to: date(params.get(URL_PARAM.To)),
+    evidence:
+      evidence == null
+        ? null
+        : (evidence.split(',').filter((kind) => kinds.includes(kind)) as EvidenceKind[]),
+    hideWiped: params.get(URL_PARAM.Wiped) === 'hide',
+    player: params.get(URL_PARAM.Name) ?? ''
+  }
+}
+
+function writeTimelineFilter(params: URLSearchParams, filter: TimelineFilter) {
+  if (filter.from) params.set(URL_PARAM.From, filter.from)
+  if (filter.to) params.set(URL_PARAM.To, filter.to)
+  if (filter.evidence) params.set(URL_PARAM.Evidence, filter.evidence.join(','))
+  if (filter.hideWiped) params.set(URL_PARAM.Wiped, 'hide')
+  if (filter.player.trim()) params.set(URL_PARAM.Name, filter.player.trim())
+}
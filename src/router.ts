@@ -0,0 +1,55 @@
+import { useEffect, useState } from 'react'
+import { formatRoute, parseRoute, type Route } from './route.ts'
+
+export {
+  formatRoute,
+  HOME_ROUTE,
+  PAGE,
+  parseRoute,
+  URL_PARAM,
+  VIEW_MODE,
+  type Page,
+  type Route,
+  type ViewMode
+} from './route.ts'
+
+export type Navigate = (patch: Partial<Route>, options?: { replace?: boolean }) => void
+
+/**
+ * Keeps a route in sync with the location hash. `navigate` pushes a history entry unless
+ * `replace` is set, and back/forward or a hand-edited hash restore the route they point at.
+ */
+export function useRoute(): [Route, Navigate] {
+  const [route, setRoute] = useState(() => parseRoute(window.location.hash))
+
+  useEffect(() => {
+    const sync = () => {
+      const next = parseRoute(window.location.hash)
+      // A hand-edited hash fires both events; keep the current object if nothing changed.
+      setRoute((current) => (formatRoute(current) === formatRoute(next) ? current : next))
+    }
+    window.addEventListener('popstate', sync)
+    window.addEventListener('hashchange', sync)
+    return () => {
+      window.removeEventListener('popstate', sync)
+      window.removeEventListener('hashchange', sync)
+    }
+  }, [])
+
+  const navigate: Navigate = (patch, options) => {
+    const next = { ...route, ...patch, invalid: [] }
+    const hash = formatRoute(next)
+    if (hash !== formatRoute(route) || route.invalid.length > 0) {
+      const url = `${window.location.pathname}${window.location.search}${hash}`
+      if (options?.replace) {
+        window.history.replaceState(null, '', url)
+      } else {
+        window.history.pushState(null, '', url)
+      }
+    }
+    // Set the route even when the hash is unchanged: it keeps untrimmed filter text.
+    setRoute(next)
+  }
+
+  return [route, navigate]
+}
@@ -0,0 +1,133 @@
+/* Service worker template. `vite build` injects the build id and precache list and emits it as sw.js. */
+
+const BUILD_ID = '__BUILD_ID__'
+const PRECACHE = __PRECACHE__
+
+const SHELL_CACHE = `wr-shell-${BUILD_ID}`
+const DATA_CACHE_PREFIX = 'wr-data-'
+const INDEX_PATH = 'data/index.json'
+const DATA_PATH = 'data/'
+// Bad LAN connections tend to hang rather than fail; fall back to the cache after this long.
+const NETWORK_TIMEOUT_MS = 4000
+
+const scope = new URL(self.registration.scope)
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(
+    Promise.all([
+      caches
+        .open(SHELL_CACHE)
+        .then((cache) => cache.addAll(PRECACHE.map((path) => new URL(path, scope).toString()))),
+      fetchIndex(new Request(new URL(INDEX_PATH, scope)))
+    ]).then(() => self.skipWaiting())
+  )
+})
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then((keys) =>
+        Promise.all(
+          keys
+            .filter((key) => key.startsWith('wr-shell-') && key !== SHELL_CACHE)
+            .map((key) => caches.delete(key))
+        )
+      )
+      .then(() => self.clients.claim())
+  )
+})
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event
+  if (request.method !== 'GET') return
+  const url = new URL(request.url)
+  if (url.origin !== scope.origin || !url.pathname.startsWith(scope.pathname)) return
+  const path = url.pathname.slice(scope.pathname.length)
+
+  if (request.mode === 'navigate') {
+    event.respondWith(networkFirst(request, SHELL_CACHE, 'index.html'))
+  } else if (path === INDEX_PATH) {
+    event.respondWith(fetchIndex(request))
+  } else if (path.startsWith(DATA_PATH)) {
+    event.respondWith(fetchData(request))
+  } else {
+    event.respondWith(cacheFirst(request, SHELL_CACHE))
+  }
+})
+
+async function networkFirst(request, cacheName, fallbackPath) {
+  const cache = await caches.open(cacheName)
+  try {
+    const response = await fetchWithTimeout(request)
+    if (response.ok) await cache.put(request, response.clone())
+    return response
+  } catch {
+    const cached =
+      (await cache.match(request)) ??
+      (fallbackPath ? await cache.match(new URL(fallbackPath, scope).toString()) : undefined)
+    return cached ?? Response.error()
+  }
+}
+
+async function cacheFirst(request, cacheName) {
+  const cache = await caches.open(cacheName)
+  const cached = await cache.match(request)
+  if (cached) return cached
+  const response = await fetch(request)
+  if (response.ok) await cache.put(request, response.clone())
+  return response
+}
+
+async function fetchIndex(request) {
+  try {
+    const response = await fetchWithTimeout(request)
+    if (!response.ok) return response
+    const { generatedAt } = await response.clone().json()
+    // Every CSV and activity file belongs to one index build; a new generatedAt drops them all.
+    const cacheName = `${DATA_CACHE_PREFIX}${generatedAt}`
+    const keys = await caches.keys()
+    await Promise.all(
+      keys
+        .filter((key) => key.startsWith(DATA_CACHE_PREFIX) && key !== cacheName)
+        .map((key) => caches.delete(key))
+    )
+    const cache = await caches.open(cacheName)
+    await cache.put(request, response.clone())
+    return response
+  } catch {
+    const cache = await getDataCache()
+    return (await cache?.match(request)) ?? Response.error()
+  }
+}
+
+async function fetchData(request) {
+  const cache = await getDataCache()
+  const cached = await cache?.match(request)
+  if (cached) return cached
+  const response = await fetch(request)
+  if (response.ok && cache) await cache.put(request, response.clone())
+  return response
+}
+
+async function getDataCache() {
+  const keys = await caches.keys()
+  const name = keys.find((key) => key.startsWith(DATA_CACHE_PREFIX))
+  return name ? caches.open(name) : null
+}
+
+function fetchWithTimeout(request) {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(() => reject(new Error('Network timeout')), NETWORK_TIMEOUT_MS)
+    fetch(request).then(
+      (response) => {
+        clearTimeout(timer)
+        resolve(response)
+      },
+      (error) => {
+        clearTimeout(timer)
+        reject(error)
+      }
+    )
+  })
+}
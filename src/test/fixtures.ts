@@ -0,0 +1,13 @@
+import fs from 'node:fs'
+import { parseCsv } from '../data/index.ts'
+
+const dataDir = new URL('../../public/data/wr-history-all/', import.meta.url)
+
+/** Raw text of a shipped `wr_history_*.csv`, so tests run against the data the site serves. */
+export function readFixture(file: string) {
+  return fs.readFileSync(new URL(file, dataDir), 'utf8')
+}
+
+export function loadFixture(file: string) {
+  return parseCsv(readFixture(file))
+}
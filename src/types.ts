@@ -0,0 +1,41 @@
+import type { MapType, PlayerDirectory } from './data/index.ts'
+
+/** Shapes of the JSON files written by `scripts/build-index.mjs`. */
+
+export type ClassSummary = {
+  currentTime: string | null
+  currentSeconds: number | null
+  holder: string | null
+  changes: number
+  firstDate: string | null
+  latestDate: string | null
+  zones: number
+}
+
+export type MapEntry = {
+  map: string
+  classes: string[]
+  files: Record<string, string>
+  summary: Record<string, ClassSummary>
+  /** From `map-metadata.json`, else the name prefix. Missing from indexes built before either. */
+  type?: MapType | null
+  /** The rest is only set for maps listed in `map-metadata.json`. */
+  tiers?: Partial<Record<'Solly' | 'Demo', number>>
+  rating?: number
+  author?: string
+}
+
+export type IndexData = {
+  generatedAt: string
+  count: number
+  shards?: Array<{ file: string; files: number; rows: number }>
+  maps: MapEntry[]
+  /** Missing from indexes built before identity resolution; rows then resolve on their own. */
+  players?: PlayerDirectory
+}
+
+export type ActivityIndex = {
+  generatedAt: string
+  count: number
+  years: Array<{ year: string; file: string; count: number }>
+}
@@ -0,0 +1,299 @@
+import { useEffect, useMemo, useState } from 'react'
+import {
+  EVIDENCE_KIND,
+  getZoneInfo,
+  parseTimeToSeconds,
+  SEGMENT_LABEL,
+  type CsvRow,
+  type EvidenceKind,
+  type PlayerDirectory,
+  type PlayerRow,
+  type ZoneInfo
+} from '../data/index.ts'
+import type { ActivityIndex } from '../types.ts'
+import { formatEvidence, getPlayerName } from './format.ts'
+import { CLASS_FILTER, type ClassFilter } from './maps.ts'
+import { PlayerIdentity } from './PlayerIdentity.tsx'
+
+type ActivityFile = {
+  year: string
+  fields: string[]
+  entries: Array<Array<string | number>>
+}
+
+type ActivityEntry = PlayerRow &
+  Pick<CsvRow, 'date' | 'map' | 'segment' | 'record_time' | 'evidence' | 'evidence_source' | 'demo_id'> & {
+    className: 'Solly' | 'Demo'
+    zone: ZoneInfo | null
+    previousTime: string
+    previousPlayer: string
+    wiped: boolean
+    wipedBoundary: boolean
+  }
+
+const ZONE_SCOPE = {
+  All: 'all',
+  Map: 'map',
+  Zones: 'zones',
+} as const
+
+type ZoneScope = (typeof ZONE_SCOPE)[keyof typeof ZONE_SCOPE]
+
+const ACTIVITY_PAGE_SIZE = 50
+
+function decodeActivity(data: ActivityFile): ActivityEntry[] {
+  return data.entries.map((values) => {
+    const item: Record<string, string> = {}
+    data.fields.forEach((field, index) => {
+      item[field] = String(values[index] ?? '')
+    })
+    return {
+      date: item.date,
+      map: item.map,
+      className: item.class as 'Solly' | 'Demo',
+      segment: item.segment,
+      zone: getZoneInfo(item.segment),
+      record_time: item.record_time,
+      previousTime: item.previous_time,
+      player: item.player,
+      previousPlayer: item.previous_player,
+      steam_id64: item.steam_id64,
+      steam_id: item.steam_id,
+      steam_candidates: item.steam_candidates,
+      evidence: item.evidence as EvidenceKind,
+      evidence_source: item.evidence_source,
+      demo_id: item.demo_id,
+      wiped: item.wiped === '1',
+      wipedBoundary: item.wiped_boundary === '1'
+    }
+  })
+}
+
+export function ActivityView({
+  directory,
+  onOpenMap,
+  onOpenPlayer
+}: {
+  directory: PlayerDirectory | null
+  onOpenMap: (map: string, className: 'Solly' | 'Demo', zone: ZoneInfo | null) => void
+  onOpenPlayer: (key: string) => void
+}) {
+  const [activityIndex, setActivityIndex] = useState<ActivityIndex | null>(null)
+  const [years, setYears] = useState<ActivityEntry[][]>([])
+  const [error, setError] = useState<string | null>(null)
+  const [classFilter, setClassFilter] = useState<ClassFilter>(CLASS_FILTER.All)
+  const [scope, setScope] = useState<ZoneScope>(ZONE_SCOPE.All)
+  const [evidence, setEvidence] = useState<EvidenceKind | 'all'>('all')
+  const [pageIndex, setPageIndex] = useState(0)
+
+  useEffect(() => {
+    fetch(`${import.meta.env.BASE_URL}data/activity/index.json`)
+      .then(readJson)
+      .then((data: ActivityIndex) => setActivityIndex(data))
+      .catch((error: unknown) => setError(describeFetchError(error)))
+  }, [])
+
+  const filtered = useMemo(() => {
+    return years.flat().filter((entry) => {
+      if (classFilter !== CLASS_FILTER.All && entry.className !== classFilter) return false
+      if (scope === ZONE_SCOPE.Map && entry.zone != null) return false
+      if (scope === ZONE_SCOPE.Zones && entry.zone == null) return false
+      if (evidence !== 'all' && entry.evidence !== evidence) return false
+      return true
+    })
+  }, [years, classFilter, scope, evidence])
+
+  // Year files are loaded newest first, only as far back as the current page needs.
+  const pageEnd = (pageIndex + 1) * ACTIVITY_PAGE_SIZE
+  const hasMoreYears = activityIndex != null && years.length < activityIndex.years.length
+  const needsMore = hasMoreYears && filtered.length <= pageEnd
+  const nextYear = needsMore ? activityIndex.years[years.length] : null
+
+  useEffect(() => {
+    if (!nextYear || error) return
+    const controller = new AbortController()
+    fetch(`${import.meta.env.BASE_URL}${nextYear.file}`, { signal: controller.signal })
+      .then(readJson)
+      .then((data: ActivityFile) => {
+        const entries = decodeActivity(data)
+        setYears((previous) => [...previous, entries])
+      })
+      .catch((error: unknown) => {
+        if (controller.signal.aborted) return
+        setError(describeFetchError(error))
+      })
+    return () => controller.abort()
+  }, [nextYear, error])
+
+  const visible = filtered.slice(pageIndex * ACTIVITY_PAGE_SIZE, pageEnd)
+  const hasOlder = filtered.length > pageEnd || hasMoreYears
+  const loadingPage = needsMore && visible.length < ACTIVITY_PAGE_SIZE
+
+  return (
+    <section className="panel wide">
+      <div className="panel-header">
+        <div>
+          <h2>Recent activity</h2>
+          <p className="muted">
+            Latest WR changes across every map, class and zone
+            {activityIndex ? ` · ${activityIndex.count} changes indexed` : ''}
+          </p>
+        </div>
+      </div>
+
+      <div className="filters">
+        <label className="zone-select">
+          <span>Class</span>
+          <select
+            value={classFilter}
+            onChange={(event) => {
+              setClassFilter(event.target.value as ClassFilter)
+              setPageIndex(0)
+            }}
+          >
+            <option value={CLASS_FILTER.All}>All</option>
+            <option value={CLASS_FILTER.Solly}>Solly</option>
+            <option value={CLASS_FILTER.Demo}>Demo</option>
+          </select>
+        </label>
+        <label className="zone-select">
+          <span>Records</span>
+          <select
+            value={scope}
+            onChange={(event) => {
+              setScope(event.target.value as ZoneScope)
+              setPageIndex(0)
+            }}
+          >
+            <option value={ZONE_SCOPE.All}>Map and zones</option>
+            <option value={ZONE_SCOPE.Map}>Map only</option>
+            <option value={ZONE_SCOPE.Zones}>Zones only</option>
+          </select>
+        </label>
+        <label className="zone-select">
+          <span>Evidence</span>
+          <select
+            value={evidence}
+            onChange={(event) => {
+              setEvidence(event.target.value as EvidenceKind | 'all')
+              setPageIndex(0)
+            }}
+          >
+            <option value="all">All</option>
+            {Object.values(EVIDENCE_KIND).map((kind) => (
+              <option key={kind} value={kind}>
+                {kind}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      {error ? (
+        <div className="empty">Could not load recent activity: {error}</div>
+      ) : loadingPage ? (
+        <div className="loading">Loading WR activity…</div>
+      ) : visible.length === 0 ? (
+        <div className="empty">No WR changes match these filters.</div>
+      ) : (
+        <>
+          <div className="table activity-table">
+            <div className="table-head">
+              <span>Date</span>
+              <span>Map</span>
+              <span>Class</span>
+              <span>Zone</span>
+              <span>Time</span>
+              <span>Player</span>
+              <span>Evidence</span>
+            </div>
+            {visible.map((entry) => (
+              <div
+                key={`${entry.date}-${entry.map}-${entry.className}-${entry.segment}-${entry.record_time}-${entry.evidence_source}`}
+                className={`table-row${entry.wiped ? ' wiped' : ''}`}
+              >
+                <span>{entry.date}</span>
+                <span>
+                  <button
+                    className="link-button"
+                    onClick={() => onOpenMap(entry.map, entry.className, entry.zone)}
+                  >
+                    {entry.map}
+                  </button>
+                </span>
+                <span>{entry.className}</span>
+                <span>{entry.zone?.label ?? SEGMENT_LABEL.Map}</span>
+                <span className={`time-cell${entry.wiped ? ' wiped' : ''}`}>
+                  {entry.record_time}
+                  {entry.previousTime ? (
+                    <small
+                      title={`Previous: ${entry.previousTime} by ${getPreviousPlayerName(
+                        entry,
+                        directory
+                      )}`}
+                    >
+                      {formatTimeDelta(entry.record_time, entry.previousTime)}
+                    </small>
+                  ) : (
+                    <small>first</small>
+                  )}
+                </span>
+                <div className="player-cell">
+                  <PlayerIdentity row={entry} directory={directory} onOpenPlayer={onOpenPlayer} />
+                </div>
+                <span>
+                  {formatEvidence(entry)}
+                  {entry.wipedBoundary ? ' · wipe' : ''}
+                </span>
+              </div>
+            ))}
+          </div>
+          <div className="pager">
+            <button
+              className="link-button"
+              disabled={pageIndex === 0}
+              onClick={() => setPageIndex((value) => Math.max(0, value - 1))}
+            >
+              Newer
+            </button>
+            <span className="muted">
+              Page {pageIndex + 1} · {visible[0].date} to {visible[visible.length - 1].date}
+            </span>
+            <button
+              className="link-button"
+              disabled={!hasOlder}
+              onClick={() => setPageIndex((value) => value + 1)}
+            >
+              Older
+            </button>
+          </div>
+        </>
+      )}
+    </section>
+  )
+}
+
+function formatTimeDelta(time: string, previous: string) {
+  const seconds = parseTimeToSeconds(time)
+  const previousSeconds = parseTimeToSeconds(previous)
+  if (seconds == null || previousSeconds == null) return ''
+  const delta = seconds - previousSeconds
+  return `${delta < 0 ? '-' : '+'}${Math.abs(delta).toFixed(2)}`
+}
+
+// Activity files only carry the previous holder's name, so only the directory can resolve it.
+function getPreviousPlayerName(entry: ActivityEntry, directory: PlayerDirectory | null) {
+  const row = { player: entry.previousPlayer, steam_id64: '', steam_id: '', steam_candidates: '' }
+  return getPlayerName(row, directory)
+}
+
+// A 404 or an offline cache miss would otherwise surface as a JSON parse error.
+function readJson(res: Response) {
+  if (!res.ok) throw new Error(`The server responded with ${res.status}.`)
+  return res.json()
+}
+
+function describeFetchError(error: unknown) {
+  if (!navigator.onLine) return 'you are offline and this page has not been saved yet.'
+  return error instanceof Error ? error.message : 'Unknown error.'
+}
@@ -0,0 +1,401 @@
+import { useMemo, useState } from 'react'
+import {
+  SEGMENT_LABEL,
+  type HeadToHead,
+  type PlayerDirectory,
+  type RivalRecord,
+  type TimelinePoint,
+  type ZoneInfo
+} from '../data/index.ts'
+import type { RequestProgress } from '../worker/dataService.ts'
+import { buildDateTicks, SERIES_COLORS } from './chart.ts'
+import { formatSignedSeconds, getTimelineRowKey } from './format.ts'
+
+const HEAD_TO_HEAD_TAKEOVER_LIMIT = 20
+
+const PLAYER_PICKER_LIMIT = 8
+
+export function HeadToHeadView({
+  keys,
+  directory,
+  headToHead,
+  progress,
+  error,
+  onChange,
+  onOpenMap,
+  onOpenPlayer
+}: {
+  keys: string[]
+  directory: PlayerDirectory | null
+  headToHead: HeadToHead | null
+  progress: RequestProgress | null
+  error: string | null
+  onChange: (keys: string[]) => void
+  onOpenMap: (map: string, className: 'Solly' | 'Demo', zone: ZoneInfo | null) => void
+  onOpenPlayer: (key: string) => void
+}) {
+  const [showAllTakeovers, setShowAllTakeovers] = useState(false)
+  const names = [0, 1].map((index) =>
+    keys[index] ? getDirectoryName(keys[index], directory) : null
+  )
+  const takeovers = (headToHead?.records ?? [])
+    .filter((record): record is RivalRecord & { takenFrom: TimelinePoint } => !!record.takenFrom)
+    .reverse()
+  const visibleTakeovers = showAllTakeovers
+    ? takeovers
+    : takeovers.slice(0, HEAD_TO_HEAD_TAKEOVER_LIMIT)
+  const takenBy = [0, 1].map((player) => takeovers.filter((item) => item.player === player).length)
+  const sharedHeld = [0, 1].map(
+    (player) => headToHead?.shared.filter((segment) => segment.holder === player).length ?? 0
+  )
+  const rows = headToHead
+    ? [
+        ...(['Solly', 'Demo'] as const).flatMap((className) => [
+          {
+            label: `${className} map WRs held`,
+            values: headToHead.players.map((player) => player.current[className].maps)
+          },
+          {
+            label: `${className} zone WRs held`,
+            values: headToHead.players.map((player) => player.current[className].zones)
+          }
+        ]),
+        { label: 'WRs ever set', values: headToHead.players.map((player) => player.recordsSet) },
+        { label: 'WRs taken from the other', values: takenBy },
+        { label: 'Shared maps and zones held now', values: sharedHeld }
+      ]
+    : []
+
+  return (
+    <section className="panel wide">
+      <div className="panel-header">
+        <div>
+          <h2>Head to head</h2>
+          <p className="muted">
+            {names[0] && names[1]
+              ? `${names[0]} vs ${names[1]} across every map and zone`
+              : 'Pick two players to compare their WR histories'}
+          </p>
+        </div>
+        {keys.length === 2 ? (
+          <div className="panel-controls">
+            <button className="link-button" onClick={() => onChange([keys[1], keys[0]])}>
+              Swap
+            </button>
+          </div>
+        ) : null}
+      </div>
+
+      <div className="filters">
+        {[0, 1].map((index) =>
+          keys[index] ? (
+            <div key={keys[index]} className="versus-slot">
+              <i style={{ background: SERIES_COLORS[index] }} />
+              <button className="player-link" onClick={() => onOpenPlayer(keys[index])}>
+                {names[index]}
+              </button>
+              <button
+                className="link-button"
+                onClick={() => onChange(keys.filter((key) => key !== keys[index]))}
+              >
+                Change
+              </button>
+            </div>
+          ) : (
+            <PlayerPicker
+              key={`picker-${index}`}
+              label={index === 0 ? 'Player' : 'Against'}
+              directory={directory}
+              exclude={keys}
+              onPick={(key) => {
+                // Comparing a player against themself says nothing.
+                if (!keys.includes(key)) onChange([...keys, key])
+              }}
+            />
+          )
+        )}
+      </div>
+
+      {keys.length < 2 ? (
+        <div className="empty">
+          Search by any name a player has used. Only players tied to a Steam ID are listed; open a
+          profile and use “Compare” for the rest.
+        </div>
+      ) : error ? (
+        <div className="empty">Could not load WR history: {error}</div>
+      ) : !headToHead ? (
+        <div className="loading">
+          Loading WR history across every map…
+          {progress ? ` ${progress.loaded} / ${progress.total} files` : ''}
+        </div>
+      ) : (
+        <>
+          <div className="table versus-table">
+            <div className="table-head">
+              <span />
+              {headToHead.players.map((player) => (
+                <span key={player.key}>{player.name}</span>
+              ))}
+            </div>
+            {rows.map((row) => (
+              <div key={row.label} className="table-row">
+                <span>{row.label}</span>
+                {row.values.map((value, index) => (
+                  <span key={index} className={value > row.values[1 - index] ? 'leading' : ''}>
+                    {value}
+                  </span>
+                ))}
+              </div>
+            ))}
+          </div>
+
+          {headToHead.records.length > 0 ? (
+            <div className="record-section">
+              <h3>
+                Record activity <span>{headToHead.records.length} records</span>
+              </h3>
+              <RivalTimeline records={headToHead.records} players={headToHead.players} />
+            </div>
+          ) : null}
+
+          <div className="record-section">
+            <h3>
+              Taken from each other <span>{takeovers.length}</span>
+            </h3>
+            {takeovers.length === 0 ? (
+              <p className="muted">Neither player has ever replaced a WR held by the other.</p>
+            ) : (
+              <>
+                <div className="table takeover-table">
+                  <div className="table-head">
+                    <span>Date</span>
+                    <span>Map</span>
+                    <span>Zone</span>
+                    <span>Taken by</span>
+                    <span>Time</span>
+                    <span>Replaced</span>
+                  </div>
+                  {visibleTakeovers.map((record) => (
+                    <div key={getRivalRecordKey(record)} className="table-row">
+                      <span>{record.point.date}</span>
+                      <span>
+                        <button
+                          className="link-button"
+                          onClick={() => onOpenMap(record.map, record.className, record.zone)}
+                        >
+                          {record.map}
+                        </button>{' '}
+                        <small className="muted">{record.className}</small>
+                      </span>
+                      <span>{record.zone?.label ?? SEGMENT_LABEL.Map}</span>
+                      <span>{headToHead.players[record.player].name}</span>
+                      <span className="time-cell">
+                        {record.point.record_time}
+                        <small>
+                          {formatSignedSeconds(
+                            record.point.recordSeconds - record.takenFrom.recordSeconds
+                          )}
+                        </small>
+                      </span>
+                      <span>{record.takenFrom.record_time}</span>
+                    </div>
+                  ))}
+                </div>
+                {takeovers.length > HEAD_TO_HEAD_TAKEOVER_LIMIT ? (
+                  <button
+                    className="link-button"
+                    onClick={() => setShowAllTakeovers((value) => !value)}
+                  >
+                    {showAllTakeovers ? 'Show latest' : `Show all ${takeovers.length}`}
+                  </button>
+                ) : null}
+              </>
+            )}
+          </div>
+
+          <div className="record-section">
+            <h3>
+              Both held the WR <span>{headToHead.shared.length} maps and zones</span>
+            </h3>
+            {headToHead.shared.length === 0 ? (
+              <p className="muted">They have never held the WR on the same map or zone.</p>
+            ) : (
+              <div className="table shared-table">
+                <div className="table-head">
+                  <span>Map</span>
+                  <span>Zone</span>
+                  {headToHead.players.map((player) => (
+                    <span key={player.key}>{player.name}</span>
+                  ))}
+                  <span>Holds it now</span>
+                </div>
+                {headToHead.shared.map((segment) => (
+                  <div
+                    key={`${segment.map}-${segment.className}-${segment.zone?.id ?? ''}`}
+                    className="table-row"
+                  >
+                    <span>
+                      <button
+                        className="link-button"
+                        onClick={() => onOpenMap(segment.map, segment.className, segment.zone)}
+                      >
+                        {segment.map}
+                      </button>{' '}
+                      <small className="muted">{segment.className}</small>
+                    </span>
+                    <span>{segment.zone?.label ?? SEGMENT_LABEL.Map}</span>
+                    <span>{segment.records[0]}</span>
+                    <span>{segment.records[1]}</span>
+                    <span>
+                      {segment.holder == null
+                        ? 'Someone else'
+                        : headToHead.players[segment.holder].name}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+          <p className="legend">
+            Records are counted on timelines with wiped times left out. A record is taken from the
+            other player when it directly replaced their standing WR.
+          </p>
+        </>
+      )}
+    </section>
+  )
+}
+
+function PlayerPicker({
+  label,
+  directory,
+  exclude,
+  onPick
+}: {
+  label: string
+  directory: PlayerDirectory | null
+  exclude: string[]
+  onPick: (key: string) => void
+}) {
+  const [query, setQuery] = useState('')
+  const matches = useMemo(() => {
+    const text = query.trim().toLowerCase()
+    if (!directory || text.length < 2) return []
+    return Object.entries(directory.players)
+      .filter(
+        ([key, names]) =>
+          !exclude.includes(key) && names.some((name) => name.toLowerCase().includes(text))
+      )
+      .slice(0, PLAYER_PICKER_LIMIT)
+  }, [directory, query, exclude])
+
+  return (
+    <div className="player-picker">
+      <label className="zone-select">
+        <span>{label}</span>
+        <input
+          type="search"
+          value={query}
+          placeholder="Search players…"
+          onChange={(event) => setQuery(event.target.value)}
+        />
+      </label>
+      {matches.length > 0 ? (
+        <ul>
+          {matches.map(([key, names]) => (
+            <li key={key}>
+              <button className="link-button" onClick={() => onPick(key)}>
+                {names[0]}
+              </button>
+              {names.length > 1 ? <small> also {names.slice(1, 4).join(', ')}</small> : null}
+            </li>
+          ))}
+        </ul>
+      ) : null}
+    </div>
+  )
+}
+
+function RivalTimeline({
+  records,
+  players
+}: {
+  records: RivalRecord[]
+  players: HeadToHead['players']
+}) {
+  const width = 900
+  const height = 150
+  const padding = 48
+  const lanes = [50, 90]
+  const min = records[0].point.dateValue
+  const max = records[records.length - 1].point.dateValue
+  const scaleX = (value: number) =>
+    padding + ((value - min) / Math.max(1, max - min)) * (width - padding * 2)
+  const ticks = buildDateTicks(min, max)
+
+  return (
+    <div className="chart-frame">
+      <svg
+        viewBox={`0 0 ${width} ${height}`}
+        role="img"
+        aria-label={`Records set by ${players[0].name} and ${players[1].name} over time`}
+      >
+        <rect x="0" y="0" width={width} height={height} rx="18" fill="var(--panel)" />
+        <g stroke="var(--grid)" strokeWidth="1">
+          {ticks.map((tick) => (
+            <line
+              key={tick.value}
+              x1={scaleX(tick.value)}
+              x2={scaleX(tick.value)}
+              y1={lanes[0] - 20}
+              y2={lanes[1] + 20}
+            />
+          ))}
+        </g>
+        <g fill="var(--muted)" fontSize="11">
+          {ticks.map((tick) => (
+            <text key={tick.value} x={scaleX(tick.value)} y={height - 16} textAnchor="middle">
+              {tick.label}
+            </text>
+          ))}
+        </g>
+        {records.map((record) => (
+          <circle
+            key={getRivalRecordKey(record)}
+            cx={scaleX(record.point.dateValue)}
+            cy={lanes[record.player]}
+            r={record.takenFrom ? 5 : 3}
+            fill={SERIES_COLORS[record.player]}
+            opacity={record.takenFrom ? 1 : 0.35}
+          >
+            <title>
+              {`${record.point.date} · ${record.map} ${record.className}` +
+                `${record.zone ? ` · ${record.zone.label}` : ''} · ${record.point.record_time}` +
+                `${record.takenFrom ? ` (took it from ${players[1 - record.player].name})` : ''}`}
+            </title>
+          </circle>
+        ))}
+      </svg>
+      <div className="chart-legend">
+        {players.map((player, index) => (
+          <span key={player.key}>
+            <i style={{ background: SERIES_COLORS[index] }} />
+            {player.name}
+          </span>
+        ))}
+        <span>Large dots took the WR from the other player</span>
+      </div>
+    </div>
+  )
+}
+
+function getRivalRecordKey(record: RivalRecord) {
+  const segment = record.zone?.id ?? SEGMENT_LABEL.Map
+  return `${record.map}-${record.className}-${segment}-${getTimelineRowKey(record.point)}`
+}
+
+/** The name a player goes by today; keys come from the URL, so only own entries count. */
+function getDirectoryName(key: string, directory: PlayerDirectory | null) {
+  const names = directory && Object.hasOwn(directory.players, key) ? directory.players[key] : null
+  return names?.[0] ?? key.replace(/^name:/, '')
+}
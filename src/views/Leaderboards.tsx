@@ -0,0 +1,214 @@
+import { useMemo, useState } from 'react'
+import {
+  LEADERBOARD_METRIC,
+  rankLeaderboard,
+  SEGMENT_LABEL,
+  type Leaderboard,
+  type LeaderboardEntry,
+  type LeaderboardMetric,
+  type LeaderboardRecord,
+  type ZoneInfo
+} from '../data/index.ts'
+import type { RequestProgress } from '../worker/dataService.ts'
+import { formatReign, getTimelineRowKey } from './format.ts'
+
+const LEADERBOARD_PAGE_SIZE = 50
+
+export function LeaderboardView({
+  className,
+  leaderboard,
+  progress,
+  error,
+  onChangeClass,
+  onOpenMap,
+  onOpenPlayer
+}: {
+  className: 'Solly' | 'Demo'
+  leaderboard: Leaderboard | null
+  progress: RequestProgress | null
+  error: string | null
+  onChangeClass: (className: 'Solly' | 'Demo') => void
+  onOpenMap: (map: string, className: 'Solly' | 'Demo', zone: ZoneInfo | null) => void
+  onOpenPlayer: (key: string) => void
+}) {
+  const [metric, setMetric] = useState<LeaderboardMetric>(LEADERBOARD_METRIC.MapRecords)
+  const [pageIndex, setPageIndex] = useState(0)
+  const [expanded, setExpanded] = useState<string | null>(null)
+
+  const ranked = useMemo(
+    () => rankLeaderboard(leaderboard?.entries ?? [], metric),
+    [leaderboard, metric]
+  )
+
+  const pageCount = Math.max(1, Math.ceil(ranked.length / LEADERBOARD_PAGE_SIZE))
+  const pageStart = pageIndex * LEADERBOARD_PAGE_SIZE
+  const visible = ranked.slice(pageStart, pageStart + LEADERBOARD_PAGE_SIZE)
+
+  return (
+    <section className="panel wide">
+      <div className="panel-header">
+        <div>
+          <h2>Leaderboards</h2>
+          <p className="muted">
+            {className} players ranked across every map and zone, merged by Steam ID
+          </p>
+        </div>
+      </div>
+
+      <div className="filters">
+        <label className="zone-select">
+          <span>Class</span>
+          <select
+            value={className}
+            onChange={(event) => onChangeClass(event.target.value as 'Solly' | 'Demo')}
+          >
+            <option value="Solly">Solly</option>
+            <option value="Demo">Demo</option>
+          </select>
+        </label>
+        <label className="zone-select">
+          <span>Rank by</span>
+          <select
+            value={metric}
+            onChange={(event) => {
+              setMetric(event.target.value as LeaderboardMetric)
+              setPageIndex(0)
+              setExpanded(null)
+            }}
+          >
+            <option value={LEADERBOARD_METRIC.MapRecords}>Map WRs held</option>
+            <option value={LEADERBOARD_METRIC.ZoneRecords}>Zone WRs held</option>
+            <option value={LEADERBOARD_METRIC.RecordsSet}>WRs ever set</option>
+            <option value={LEADERBOARD_METRIC.DaysHeld}>Days holding WRs</option>
+            <option value={LEADERBOARD_METRIC.LongestReign}>Longest single reign</option>
+          </select>
+        </label>
+      </div>
+
+      {error ? (
+        <div className="empty">Could not load WR history: {error}</div>
+      ) : !leaderboard ? (
+        <div className="loading">
+          Loading WR history across every map…
+          {progress ? ` ${progress.loaded} / ${progress.total} files` : ''}
+        </div>
+      ) : ranked.length === 0 ? (
+        <div className="empty">No {className} players to rank yet.</div>
+      ) : (
+        <div className="record-section">
+          <h3>
+            Players <span>{ranked.length}</span>
+          </h3>
+          <div className="table leaderboard-table">
+            <div className="table-head">
+              <span>#</span>
+              <span>Player</span>
+              <span>Map WRs</span>
+              <span>Zone WRs</span>
+              <span>Set</span>
+              <span>Days held</span>
+              <span>Longest</span>
+            </div>
+            {visible.map(({ entry, rank }) => {
+              const isExpanded = expanded === entry.key
+              const records = getLeaderboardRecords(entry, metric)
+              return (
+                <div key={entry.key} className={`table-row ${isExpanded ? 'expanded' : ''}`}>
+                  <span>{rank}</span>
+                  <span>
+                    <button className="link-button" onClick={() => onOpenPlayer(entry.key)}>
+                      {entry.name}
+                    </button>
+                  </span>
+                  <span>{entry.currentMapRecords}</span>
+                  <span>{entry.currentZoneRecords}</span>
+                  <span>{entry.recordsSet}</span>
+                  <span>{Math.round(entry.daysHeld).toLocaleString()}</span>
+                  <span>{formatReign(entry.longestReign)}</span>
+                  <div className="leaderboard-records">
+                    <button
+                      className="link-button"
+                      aria-expanded={isExpanded}
+                      onClick={() => setExpanded(isExpanded ? null : entry.key)}
+                    >
+                      {isExpanded ? 'Hide' : 'Show'} {records.length}{' '}
+                      {records.length === 1 ? 'record' : 'records'}
+                    </button>
+                    {isExpanded ? (
+                      <ul>
+                        {records.map((record) => (
+                          <li key={getLeaderboardRecordKey(record)}>
+                            <button
+                              className="link-button"
+                              onClick={() => onOpenMap(record.map, record.className, record.zone)}
+                            >
+                              {record.map}
+                              {record.zone ? ` · ${record.zone.label}` : ''}
+                            </button>{' '}
+                            <span className="muted">
+                              {record.point.record_time} · {record.point.date} ·{' '}
+                              {formatReign(record.point.reignDays)}
+                              {record.point.reigning ? ' (standing)' : ''}
+                            </span>
+                          </li>
+                        ))}
+                      </ul>
+                    ) : null}
+                  </div>
+                </div>
+              )
+            })}
+          </div>
+          {pageCount > 1 ? (
+            <div className="pager">
+              <button
+                className="link-button"
+                disabled={pageIndex === 0}
+                onClick={() => setPageIndex((value) => Math.max(0, value - 1))}
+              >
+                Previous
+              </button>
+              <span className="muted">
+                Page {pageIndex + 1} of {pageCount}
+              </span>
+              <button
+                className="link-button"
+                disabled={pageIndex + 1 >= pageCount}
+                onClick={() => setPageIndex((value) => value + 1)}
+              >
+                Next
+              </button>
+            </div>
+          ) : null}
+          <p className="legend">
+            Wiped times count towards nothing. A reign lasts until the next record on the same map
+            or zone, so days held add up across every WR a player has set.
+          </p>
+        </div>
+      )}
+    </section>
+  )
+}
+
+function getLeaderboardRecordKey(record: LeaderboardRecord) {
+  const segment = record.zone?.id ?? SEGMENT_LABEL.Map
+  return `${record.map}-${segment}-${getTimelineRowKey(record.point)}`
+}
+
+/** The records behind an entry's number for `metric`, in the order worth reading them. */
+function getLeaderboardRecords(
+  entry: LeaderboardEntry,
+  metric: LeaderboardMetric
+): LeaderboardRecord[] {
+  switch (metric) {
+    case LEADERBOARD_METRIC.MapRecords:
+      return entry.records.filter((record) => record.point.reigning && !record.zone)
+    case LEADERBOARD_METRIC.ZoneRecords:
+      return entry.records.filter((record) => record.point.reigning && record.zone)
+    case LEADERBOARD_METRIC.RecordsSet:
+      return entry.records
+    case LEADERBOARD_METRIC.DaysHeld:
+    case LEADERBOARD_METRIC.LongestReign:
+      return [...entry.records].sort((a, b) => b.point.reignDays - a.point.reignDays)
+  }
+}
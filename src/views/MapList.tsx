@@ -0,0 +1,203 @@
+import { useMemo, useState } from 'react'
+import { MAP_TYPE, type MapType } from '../data/index.ts'
+import type { ClassSummary, MapEntry } from '../types.ts'
+import {
+  CLASS_FILTER,
+  CLASSES,
+  MAP_SORT,
+  MAP_TYPE_LABEL,
+  type ClassFilter,
+  type MapSort
+} from './maps.ts'
+
+/** The searchable, sortable map list in the sidebar. */
+export function MapList({
+  maps,
+  selectedMap,
+  onSelect
+}: {
+  maps: MapEntry[]
+  selectedMap: string | null
+  onSelect: (entry: MapEntry) => void
+}) {
+  const [query, setQuery] = useState('')
+  const [mapSort, setMapSort] = useState<MapSort>(MAP_SORT.Name)
+  const [classFilter, setClassFilter] = useState<ClassFilter>(CLASS_FILTER.All)
+  const [tierFilter, setTierFilter] = useState<number | null>(null)
+  const [typeFilter, setTypeFilter] = useState<MapType | null>(null)
+
+  const filteredMaps = useMemo(() => {
+    const term = query.trim().toLowerCase()
+    const className = classFilter === CLASS_FILTER.All ? null : classFilter
+    const matches = maps.filter((entry) => {
+      // "Demo only" means maps without Solly records, not every map that has Demo ones.
+      if (className && (entry.classes.length !== 1 || entry.classes[0] !== className)) return false
+      if (typeFilter && entry.type !== typeFilter) return false
+      if (tierFilter != null && !getMapTiers(entry, className).includes(tierFilter)) return false
+      return !term || entry.map.toLowerCase().includes(term)
+    })
+    if (mapSort === MAP_SORT.Name) return matches
+
+    // Array.prototype.sort is stable, so ties keep the alphabetical index order.
+    return matches
+      .map((entry) => ({ entry, metrics: getMapMetrics(entry, className) }))
+      .sort((a, b) => {
+        switch (mapSort) {
+          case MAP_SORT.Recent:
+            return b.metrics.latestDate.localeCompare(a.metrics.latestDate)
+          case MAP_SORT.Contested:
+            return b.metrics.changes - a.metrics.changes
+          case MAP_SORT.Zones:
+            return b.metrics.zones - a.metrics.zones
+          default:
+            return 0
+        }
+      })
+      .map(({ entry }) => entry)
+  }, [maps, query, mapSort, classFilter, tierFilter, typeFilter])
+
+  // Only offer what the index has: tiers appear as map-metadata.json fills in.
+  const mapTiers = useMemo(() => {
+    const tiers = new Set(maps.flatMap((entry) => getMapTiers(entry, null)))
+    return Array.from(tiers).sort((a, b) => a - b)
+  }, [maps])
+  const mapTypes = useMemo(
+    () =>
+      Object.values(MAP_TYPE).filter((type) => maps.some((entry) => entry.type === type)),
+    [maps]
+  )
+
+  return (
+    <aside className="panel">
+      <div className="panel-header">
+        <h2>Maps</h2>
+        <span>{filteredMaps.length} results</span>
+      </div>
+      <input
+        className="search"
+        placeholder="Search map name…"
+        value={query}
+        onChange={(event) => setQuery(event.target.value)}
+      />
+      <div className="map-controls">
+        <label>
+          <span>Sort</span>
+          <select
+            value={mapSort}
+            onChange={(event) => setMapSort(event.target.value as MapSort)}
+          >
+            <option value={MAP_SORT.Name}>Name</option>
+            <option value={MAP_SORT.Recent}>Recently changed</option>
+            <option value={MAP_SORT.Contested}>Most contested</option>
+            <option value={MAP_SORT.Zones}>Most zones</option>
+          </select>
+        </label>
+        <label>
+          <span>Class</span>
+          <select
+            value={classFilter}
+            onChange={(event) => setClassFilter(event.target.value as ClassFilter)}
+          >
+            <option value={CLASS_FILTER.All}>All</option>
+            <option value={CLASS_FILTER.Solly}>Solly only</option>
+            <option value={CLASS_FILTER.Demo}>Demo only</option>
+          </select>
+        </label>
+      </div>
+      <div className="map-controls">
+        {mapTiers.length > 0 ? (
+          <label>
+            <span>Tier</span>
+            <select
+              value={tierFilter ?? ''}
+              onChange={(event) =>
+                setTierFilter(event.target.value ? Number(event.target.value) : null)
+              }
+            >
+              <option value="">All</option>
+              {mapTiers.map((tier) => (
+                <option key={tier} value={tier}>
+                  Tier {tier}
+                </option>
+              ))}
+            </select>
+          </label>
+        ) : null}
+        <label>
+          <span>Type</span>
+          <select
+            value={typeFilter ?? ''}
+            onChange={(event) => setTypeFilter((event.target.value || null) as MapType | null)}
+          >
+            <option value="">All</option>
+            {mapTypes.map((type) => (
+              <option key={type} value={type}>
+                {MAP_TYPE_LABEL[type]}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+      <div className="map-list">
+        {filteredMaps.map((entry) => {
+          const isActive = entry.map === selectedMap
+          const metric = formatMapMetric(
+            entry,
+            mapSort,
+            classFilter === CLASS_FILTER.All ? null : classFilter
+          )
+          return (
+            <button
+              key={entry.map}
+              className={`map-item ${isActive ? 'active' : ''}`}
+              onClick={() => onSelect(entry)}
+            >
+              <span>
+                {entry.map}
+                {metric ? <small>{metric}</small> : null}
+              </span>
+              <em>{entry.classes.join(' / ')}</em>
+            </button>
+          )
+        })}
+      </div>
+    </aside>
+  )
+}
+
+function getMapMetrics(entry: MapEntry, className: 'Solly' | 'Demo' | null) {
+  const summaries = (className ? [entry.summary?.[className]] : Object.values(entry.summary ?? {}))
+    .filter(Boolean) as ClassSummary[]
+  return {
+    latestDate: summaries.reduce((latest, item) => {
+      const date = item.latestDate ?? ''
+      return date > latest ? date : latest
+    }, ''),
+    changes: summaries.reduce((total, item) => total + item.changes, 0),
+    zones: summaries.reduce((max, item) => Math.max(max, item.zones), 0)
+  }
+}
+
+/** Tiers of the map's classes, or only `className`'s when one is picked. */
+function getMapTiers(entry: MapEntry, className: 'Solly' | 'Demo' | null) {
+  return (className ? [className] : CLASSES)
+    .map((item) => entry.tiers?.[item])
+    .filter((tier): tier is number => tier != null)
+}
+
+function formatMapMetric(entry: MapEntry, sort: MapSort, className: 'Solly' | 'Demo' | null) {
+  const metrics = getMapMetrics(entry, className)
+  switch (sort) {
+    case MAP_SORT.Recent:
+      return metrics.latestDate ? `Changed ${metrics.latestDate}` : 'No changes'
+    case MAP_SORT.Contested:
+      return `${metrics.changes} changes`
+    case MAP_SORT.Zones:
+      return `${metrics.zones} zones`
+    default: {
+      const summary = className ? entry.summary?.[className] : null
+      if (!summary?.currentTime) return ''
+      return `${summary.currentTime} · ${summary.holder ?? 'unknown'}`
+    }
+  }
+}
@@ -0,0 +1,1020 @@
+import { useMemo, useRef, useState } from 'react'
+import {
+  buildReigns,
+  compareZones,
+  EMPTY_TIMELINE_FILTER,
+  EVIDENCE_KIND,
+  explainWipes,
+  filterTimeline,
+  formatSeconds,
+  getWipeBoundaryTrigger,
+  isTimelineFilterActive,
+  SEGMENT_LABEL,
+  summarizeReigns,
+  withoutWipeInference,
+  type CsvRow,
+  type DataPoint,
+  type EvidenceKind,
+  type PlayerDirectory,
+  type ReignPoint,
+  type TimelineFilter,
+  type TimelinePoint,
+  type WipeExplanation,
+  type ZoneInfo,
+  type ZoneTimeline
+} from '../data/index.ts'
+import { downloadBlob, timelineToCsv, timelineToJson } from '../exports.ts'
+import { VIEW_MODE, type Navigate, type Route } from '../router.ts'
+import type { MapEntry } from '../types.ts'
+import { REQUEST_STATUS, useDataRequest, type RequestState } from '../worker/dataService.ts'
+import {
+  CLASS_COLOR,
+  SERIES_COLORS,
+  Y_AXIS,
+  Y_AXIS_LABEL,
+  type ChartSeries,
+  type YAxisMode
+} from './chart.ts'
+import {
+  formatDate,
+  formatEvidence,
+  formatReign,
+  formatSignedSeconds,
+  getPlayerName,
+  getTimelineRowKey
+} from './format.ts'
+import { CLASSES, MAP_TYPE_LABEL } from './maps.ts'
+import { PlayerIdentity } from './PlayerIdentity.tsx'
+import { TimelineChart } from './TimelineChart.tsx'
+
+type ZoneEntry = ZoneTimeline & {
+  zone: ZoneInfo
+}
+
+type ClassGap = {
+  zone: ZoneInfo | null
+  solly: TimelinePoint
+  demo: TimelinePoint
+  gap: number
+}
+
+const TIMELINE_SORT = {
+  Date: 'date',
+  Time: 'time',
+  Reign: 'reign',
+  Split: 'split',
+  Improvement: 'improvement',
+} as const
+
+type TimelineSort = (typeof TIMELINE_SORT)[keyof typeof TIMELINE_SORT]
+
+type TableSort = { key: TimelineSort; descending: boolean }
+
+// Direction a column sorts in on its first click: the most interesting rows first.
+const TIMELINE_SORT_DESCENDING: Record<TimelineSort, boolean> = {
+  [TIMELINE_SORT.Date]: false,
+  [TIMELINE_SORT.Time]: false,
+  [TIMELINE_SORT.Reign]: true,
+  [TIMELINE_SORT.Split]: false,
+  [TIMELINE_SORT.Improvement]: true,
+}
+
+/** The WR timeline of one map and class, with its zones, class comparison and full table. */
+export function MapView({
+  entry,
+  className,
+  route,
+  navigate,
+  request,
+  online,
+  generatedAt,
+  directory,
+  onOpenPlayer
+}: {
+  entry: MapEntry | null
+  className: 'Solly' | 'Demo'
+  route: Route
+  navigate: Navigate
+  request: RequestState<ZoneTimeline[]>
+  online: boolean
+  generatedAt: string | null
+  directory: PlayerDirectory | null
+  onOpenPlayer: (playerKey: string) => void
+}) {
+  const { view, filter: timelineFilter } = route
+  const selectedMap = entry?.map ?? null
+  const [yAxis, setYAxis] = useState<YAxisMode>(Y_AXIS.Time)
+  const [highlightedRow, setHighlightedRow] = useState<string | null>(null)
+  const [overlayZones, setOverlayZones] = useState<string[]>([])
+  const [tableSort, setTableSort] = useState<TableSort>({
+    key: TIMELINE_SORT.Date,
+    descending: false
+  })
+  const tableRef = useRef<HTMLDivElement>(null)
+
+  const compareClasses = route.compare
+  const otherClass = className === 'Solly' ? 'Demo' : 'Solly'
+  const canCompare = entry?.classes.includes(otherClass) ?? false
+  const selectedFile = entry?.files[className] ?? null
+  const compareFile = compareClasses ? entry?.files[otherClass] ?? null : null
+
+  const compareRequest = useDataRequest(
+    compareFile ? { type: 'timelines', file: compareFile } : null
+  )
+  const mapTimelines = useMemo(
+    () => applyWipeInference(request.data ?? [], route.inferWipes),
+    [request.data, route.inferWipes]
+  )
+  const compareTimelines = useMemo(
+    () => applyWipeInference(compareRequest.data ?? [], route.inferWipes),
+    [compareRequest.data, route.inferWipes]
+  )
+
+  const zoneOptions = useMemo(() => {
+    return mapTimelines
+      .flatMap((item) => (item.zone ? [item.zone] : []))
+      .sort(compareZones)
+  }, [mapTimelines])
+
+  const selectedZone =
+    view === VIEW_MODE.Zones ? route.zone ?? zoneOptions[0]?.id ?? null : null
+
+  const activeZone = useMemo(() => {
+    if (!selectedZone) return null
+    return zoneOptions.find((zone) => zone.id === selectedZone) ?? null
+  }, [selectedZone, zoneOptions])
+
+  const timeline = useMemo(() => {
+    const zoneId = view === VIEW_MODE.Map ? null : selectedZone
+    return mapTimelines.find((item) => (item.zone?.id ?? null) === zoneId)?.timeline ?? []
+  }, [mapTimelines, view, selectedZone])
+
+  const classTimelines = useMemo(() => {
+    // Stale results belong to another map or class, so wait for both to settle.
+    if (request.stale || compareRequest.stale) return null
+    if (!request.data || !compareRequest.data) return null
+    const build = (timelines: ZoneTimeline[]) =>
+      new Map(timelines.map((item) => [item.zone?.id ?? SEGMENT_LABEL.Map, item]))
+    return {
+      [className]: build(mapTimelines),
+      [otherClass]: build(compareTimelines)
+    } as Record<'Solly' | 'Demo', ReturnType<typeof build>>
+  }, [
+    request.stale,
+    request.data,
+    compareRequest.stale,
+    compareRequest.data,
+    mapTimelines,
+    compareTimelines,
+    className,
+    otherClass
+  ])
+
+  const zoneTimelines = useMemo<ZoneEntry[]>(() => {
+    if (view !== VIEW_MODE.Zones) return []
+    return mapTimelines
+      .filter((item): item is ZoneEntry => item.zone != null)
+      .sort((a, b) => compareZones(a.zone, b.zone))
+  }, [mapTimelines, view])
+
+  const overlayTimelines = useMemo(() => {
+    return zoneTimelines.filter(
+      (item) => item.zone.id !== selectedZone && overlayZones.includes(item.zone.id)
+    )
+  }, [zoneTimelines, overlayZones, selectedZone])
+
+  // Table rows always belong to the primary series; clicks on other series are ignored.
+  const primarySeriesId = overlayTimelines.length > 0 ? selectedZone : className
+
+  const fullSeries = useMemo<ChartSeries[]>(() => {
+    if (overlayTimelines.length > 0) {
+      const primary = zoneTimelines.find((item) => item.zone.id === selectedZone)
+      return [...(primary ? [primary] : []), ...overlayTimelines].map((item, index) => ({
+        id: item.zone.id,
+        label: item.zone.label,
+        color: SERIES_COLORS[index % SERIES_COLORS.length],
+        points: item.timeline
+      }))
+    }
+    if (!classTimelines) {
+      return [
+        { id: className, label: className, color: CLASS_COLOR[className], points: timeline }
+      ]
+    }
+    const zoneKey = view === VIEW_MODE.Zones ? selectedZone ?? '' : SEGMENT_LABEL.Map
+    return CLASSES
+      .map((item) => ({
+        id: item,
+        label: item,
+        color: CLASS_COLOR[item],
+        points: classTimelines[item].get(zoneKey)?.timeline ?? []
+      }))
+      .filter((item) => item.points.length > 0)
+  }, [
+    overlayTimelines,
+    zoneTimelines,
+    classTimelines,
+    className,
+    timeline,
+    view,
+    selectedZone
+  ])
+
+  const chartSeries = useMemo<ChartSeries[]>(() => {
+    // Baselines come from the full timeline so "gap to current WR" ignores the filters.
+    return fullSeries
+      .map((item) => ({
+        ...item,
+        baseline: item.points[item.points.length - 1]?.recordSeconds,
+        points: filterTimeline(item.points, timelineFilter, directory)
+      }))
+      .filter((item) => item.points.length > 0)
+  }, [fullSeries, timelineFilter, directory])
+
+  const wipeExplanations = useMemo(() => explainWipes(timeline), [timeline])
+
+  // Reigns are measured on the full timeline so filtering out a later WR does not stretch them.
+  const reigns = useMemo(() => buildReigns(timeline), [timeline])
+
+  const visibleTimeline = useMemo(
+    () => filterTimeline(reigns, timelineFilter, directory),
+    [reigns, timelineFilter, directory]
+  )
+
+  const tableRows = useMemo(() => {
+    const { key, descending } = tableSort
+    if (key === TIMELINE_SORT.Date && !descending) return visibleTimeline
+    // Rows without a value stay at the bottom in either direction.
+    return [...visibleTimeline].sort((a, b) => {
+      const left = getSortValue(a, key)
+      const right = getSortValue(b, key)
+      if (left == null || right == null) return left == null ? (right == null ? 0 : 1) : -1
+      return descending ? right - left : left - right
+    })
+  }, [visibleTimeline, tableSort])
+
+  const sortTable = (key: TimelineSort) => {
+    setTableSort((current) =>
+      current.key === key
+        ? { key, descending: !current.descending }
+        : { key, descending: TIMELINE_SORT_DESCENDING[key] }
+    )
+  }
+
+  const classGaps = useMemo(() => {
+    if (!classTimelines) return []
+    const gaps: ClassGap[] = []
+    for (const [key, solly] of classTimelines.Solly) {
+      const demo = classTimelines.Demo.get(key)
+      const sollyCurrent = solly.timeline[solly.timeline.length - 1]
+      const demoCurrent = demo?.timeline[demo.timeline.length - 1]
+      if (!sollyCurrent || !demoCurrent) continue
+      gaps.push({
+        zone: solly.zone,
+        solly: sollyCurrent,
+        demo: demoCurrent,
+        gap: demoCurrent.recordSeconds - sollyCurrent.recordSeconds
+      })
+    }
+    return gaps.sort((a, b) => {
+      if (!a.zone || !b.zone) return a.zone ? 1 : b.zone ? -1 : 0
+      return compareZones(a.zone, b.zone)
+    })
+  }, [classTimelines])
+
+  const selectTimelinePoint = (seriesId: string, point: DataPoint) => {
+    if (seriesId !== primarySeriesId) return
+    const key = getTimelineRowKey(point)
+    setHighlightedRow(key)
+    tableRef.current
+      ?.querySelector(`[data-row-key="${CSS.escape(key)}"]`)
+      ?.scrollIntoView({ block: 'nearest', behavior: 'smooth' })
+  }
+
+  const exportTitle = [
+    selectedMap,
+    classTimelines ? 'Solly vs Demo' : className,
+    view === VIEW_MODE.Zones ? activeZone?.label ?? 'Zones' : 'Map'
+  ].join(' · ')
+  const exportFileName = [
+    selectedMap,
+    classTimelines ? 'compare' : className,
+    view === VIEW_MODE.Zones ? selectedZone ?? 'zones' : 'map'
+  ].join('_')
+
+  const exportTimeline = (format: 'csv' | 'json') => {
+    const blob =
+      format === 'csv'
+        ? new Blob([timelineToCsv(chartSeries)], { type: 'text/csv' })
+        : new Blob([timelineToJson(chartSeries)], { type: 'application/json' })
+    downloadBlob(blob, `${exportFileName}_timeline.${format}`)
+  }
+
+  const stats = useMemo(() => {
+    if (timeline.length === 0) return null
+    const current = timeline[timeline.length - 1]
+    const first = timeline[0]
+    return {
+      count: timeline.length,
+      currentTime: current.record_time,
+      currentDate: current.date,
+      firstDate: first.date,
+      ...summarizeReigns(reigns)
+    }
+  }, [timeline, reigns])
+
+  return (
+    <section
+      className={`panel wide ${request.stale ? 'stale' : ''}`}
+      aria-busy={request.status === REQUEST_STATUS.Pending}
+    >
+      <div className="panel-header">
+        <div>
+          <h2>{selectedMap ?? 'Select a map'}</h2>
+          <p className="muted">
+            {view === VIEW_MODE.Zones
+              ? `Zone history for ${className}${activeZone ? ` · ${activeZone.label}` : ''}`
+              : `WR timeline for ${className}`}
+          </p>
+          {entry ? <MapDetails entry={entry} /> : null}
+        </div>
+        <div className="panel-controls">
+          <div className="class-toggle view-toggle">
+            <button
+              className={view === VIEW_MODE.Map ? 'active' : ''}
+              onClick={() => navigate({ view: VIEW_MODE.Map, zone: null })}
+            >
+              Map
+            </button>
+            <button
+              className={view === VIEW_MODE.Zones ? 'active' : ''}
+              onClick={() => navigate({ view: VIEW_MODE.Zones, zone: null })}
+            >
+              Zones
+            </button>
+          </div>
+          <div className="class-toggle">
+            <button
+              className={compareClasses ? 'active' : ''}
+              onClick={() => navigate({ compare: !compareClasses })}
+              disabled={!canCompare}
+              title={canCompare ? 'Overlay Solly and Demo' : 'Only one class has data for this map'}
+            >
+              Compare
+            </button>
+          </div>
+          <div className="class-toggle">
+            <button
+              className={className === 'Solly' ? 'active' : ''}
+              onClick={() => navigate({ className: 'Solly' })}
+              disabled={!entry?.classes.includes('Solly')}
+            >
+              Solly
+            </button>
+            <button
+              className={className === 'Demo' ? 'active' : ''}
+              onClick={() => navigate({ className: 'Demo' })}
+              disabled={!entry?.classes.includes('Demo')}
+            >
+              Demo
+            </button>
+          </div>
+        </div>
+      </div>
+
+      <div className="filters">
+        {view === VIEW_MODE.Zones ? (
+          <label className="zone-select">
+            <span>Zone</span>
+            <select
+              value={selectedZone ?? ''}
+              onChange={(event) => navigate({ zone: event.target.value })}
+              disabled={zoneOptions.length === 0}
+            >
+              {zoneOptions.length === 0 ? (
+                <option value="">No zones</option>
+              ) : (
+                zoneOptions.map((zone) => (
+                  <option key={zone.id} value={zone.id}>
+                    {zone.label}
+                  </option>
+                ))
+              )}
+            </select>
+          </label>
+        ) : null}
+        <label className="zone-select">
+          <span>Y axis</span>
+          <select value={yAxis} onChange={(event) => setYAxis(event.target.value as YAxisMode)}>
+            {Object.values(Y_AXIS).map((mode) => (
+              <option key={mode} value={mode}>
+                {Y_AXIS_LABEL[mode]}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label title="Treat a slower record or irc_set announcement as a wipe of faster times">
+          <input
+            type="checkbox"
+            checked={route.inferWipes}
+            onChange={(event) => navigate({ inferWipes: event.target.checked })}
+          />
+          Infer wipes
+        </label>
+      </div>
+      <TimelineFilters
+        filter={timelineFilter}
+        onChange={(filter) => navigate({ filter }, { replace: true })}
+      />
+
+      {request.status === REQUEST_STATUS.Error ? (
+        <div className="empty">
+          Could not load WR history:{' '}
+          {online ? request.error : 'you are offline and this map has not been saved.'}
+        </div>
+      ) : request.status === REQUEST_STATUS.Pending && !request.stale ? (
+        <div className="loading">Loading WR history…</div>
+      ) : timeline.length === 0 ? (
+        <div className="empty">No WR history found for this map/class.</div>
+      ) : (
+        <>
+          <div className="stats">
+            <div>
+              <span>Timeline</span>
+              <strong>
+                {visibleTimeline.length === timeline.length
+                  ? stats?.count
+                  : `${visibleTimeline.length} / ${stats?.count}`}
+              </strong>
+            </div>
+            <div>
+              <span>Current time</span>
+              <strong>{stats?.currentTime}</strong>
+            </div>
+            <div>
+              <span>First seen</span>
+              <strong>{stats?.firstDate}</strong>
+            </div>
+            <div>
+              <span>Latest change</span>
+              <strong>{stats?.currentDate}</strong>
+            </div>
+            <div>
+              <span>Longest reign</span>
+              <strong>
+                {stats?.longestReign ? formatReign(stats.longestReign.reignDays) : '—'}
+              </strong>
+              {stats?.longestReign ? (
+                <small>
+                  {stats.longestReign.record_time} ·{' '}
+                  {getPlayerName(stats.longestReign, directory)}
+                </small>
+              ) : null}
+            </div>
+            <div>
+              <span>Biggest improvement</span>
+              <strong>
+                {stats?.biggestImprovement?.splitSeconds != null
+                  ? formatSignedSeconds(stats.biggestImprovement.splitSeconds)
+                  : '—'}
+              </strong>
+              {stats?.biggestImprovement ? (
+                <small>
+                  {stats.biggestImprovement.date} ·{' '}
+                  {getPlayerName(stats.biggestImprovement, directory)}
+                </small>
+              ) : null}
+            </div>
+            <div>
+              <span>Total improvement</span>
+              <strong>
+                {stats?.totalImprovement != null
+                  ? formatSignedSeconds(-stats.totalImprovement)
+                  : '—'}
+              </strong>
+              <small>since {stats?.firstDate}</small>
+            </div>
+            <div className="export-links">
+              <a
+                className="download"
+                href={`${import.meta.env.BASE_URL}${selectedFile}`}
+                download
+                title="The full source CSV for this map and class"
+              >
+                Source CSV
+              </a>
+              <button
+                className="link-button"
+                title="The timeline as shown, with parsed seconds and wipe flags"
+                onClick={() => exportTimeline('csv')}
+              >
+                CSV
+              </button>
+              <button
+                className="link-button"
+                title="The timeline as shown, with parsed seconds and wipe flags"
+                onClick={() => exportTimeline('json')}
+              >
+                JSON
+              </button>
+            </div>
+          </div>
+
+          {view === VIEW_MODE.Zones && zoneTimelines.length > 0 ? (
+            <ZoneOverview
+              zones={zoneTimelines}
+              selectedZone={selectedZone}
+              overlayZones={overlayZones}
+              onSelectZone={(zone) => navigate({ zone })}
+              onToggleOverlay={(zoneId) =>
+                setOverlayZones((current) =>
+                  current.includes(zoneId)
+                    ? current.filter((id) => id !== zoneId)
+                    : [...current, zoneId]
+                )
+              }
+              directory={directory}
+              onOpenPlayer={onOpenPlayer}
+            />
+          ) : null}
+
+          {chartSeries.length === 0 ? (
+            <div className="empty">No timeline points match these filters.</div>
+          ) : (
+            <div className="chart">
+              <TimelineChart
+                key={`${selectedMap}-${view}-${selectedZone ?? ''}`}
+                series={chartSeries}
+                yAxis={yAxis}
+                directory={directory}
+                onSelectPoint={selectTimelinePoint}
+                exportOptions={{
+                  title: exportTitle,
+                  subtitle: `Tempus WR History · data generated ${
+                    generatedAt ? formatDate(generatedAt) : '—'
+                  }`,
+                  fileName: exportFileName
+                }}
+              />
+            </div>
+          )}
+
+          {compareClasses && classGaps.length > 0 ? <ClassGapTable gaps={classGaps} /> : null}
+
+          {wipeExplanations.length > 0 ? (
+            <WipeExplanationPanel
+              explanations={wipeExplanations}
+              directory={directory}
+              onSelectPoint={(point) => selectTimelinePoint(primarySeriesId ?? '', point)}
+            />
+          ) : null}
+
+          <div className="table" ref={tableRef}>
+            <div className="table-head">
+              <span className="watch-header" aria-label="Watch demo" title="Watch demo">
+                <span className="watch-icon" aria-hidden="true" />
+              </span>
+              <SortHeader
+                label="Date"
+                sortKey={TIMELINE_SORT.Date}
+                sort={tableSort}
+                onSort={sortTable}
+              />
+              <SortHeader
+                label="Time"
+                sortKey={TIMELINE_SORT.Time}
+                sort={tableSort}
+                onSort={sortTable}
+              />
+              <span>Player</span>
+              <SortHeader
+                label="Reign"
+                title="How long the time stood as WR"
+                sortKey={TIMELINE_SORT.Reign}
+                sort={tableSort}
+                onSort={sortTable}
+              />
+              <SortHeader
+                label="Split"
+                title="Change against the WR it replaced"
+                sortKey={TIMELINE_SORT.Split}
+                sort={tableSort}
+                onSort={sortTable}
+              />
+              <SortHeader
+                label="PB gain"
+                title="How much the player beat their own previous time by"
+                sortKey={TIMELINE_SORT.Improvement}
+                sort={tableSort}
+                onSort={sortTable}
+              />
+              <span>Details</span>
+              <span>Demo</span>
+            </div>
+            {tableRows.map((row) => (
+              <div
+                key={getTimelineRowKey(row)}
+                data-row-key={getTimelineRowKey(row)}
+                className={`table-row${row.wiped ? ' wiped' : ''}${
+                  highlightedRow === getTimelineRowKey(row) ? ' highlighted' : ''
+                }`}
+              >
+                <span className="watch-cell">
+                  {/* Only record-setting demos get a stable demo_id; keep links gated to avoid mislinking. */}
+                  {row.demo_id && row.evidence === EVIDENCE_KIND.Record ? (
+                    <a
+                      className="watch-button"
+                      href={`https://demos.tf2jump.xyz/?demo=${row.demo_id}`}
+                      target="_blank"
+                      rel="noreferrer"
+                      aria-label="Watch demo"
+                      title="Watch demo"
+                    >
+                      <span className="watch-icon" aria-hidden="true" />
+                    </a>
+                  ) : (
+                    <span className="watch-placeholder">-</span>
+                  )}
+                </span>
+                <span>{row.date}</span>
+                <span className={`time-cell${row.wiped ? ' wiped' : ''}`}>{row.record_time}</span>
+                <div className="player-cell">
+                  <PlayerIdentity row={row} directory={directory} onOpenPlayer={onOpenPlayer} />
+                </div>
+                <span
+                  className={row.reigning ? 'reign-cell current' : 'reign-cell'}
+                  title={row.reigning ? 'Current WR' : undefined}
+                >
+                  {formatReign(row.reignDays)}
+                </span>
+                <span>
+                  {row.splitSeconds != null ? formatSignedSeconds(row.splitSeconds) : '—'}
+                </span>
+                <span>
+                  {row.improvementSeconds != null
+                    ? formatSeconds(Math.abs(row.improvementSeconds))
+                    : '—'}
+                </span>
+                <span>
+                  {formatDetails(row, row.wiped)}
+                  {row.corroborating.length > 0 ? (
+                    <small className="corroborating">
+                      also {formatCorroboration(row)}
+                    </small>
+                  ) : null}
+                  {row.wipedBoundary ? (
+                    <span
+                      className="wipe-tag"
+                      title="A slower time accepted as WR; faster times before it count as wiped"
+                    >
+                      wipe boundary · {getWipeBoundaryTrigger(row)}
+                    </span>
+                  ) : null}
+                </span>
+                <span>
+                  {row.demo_id && row.evidence === EVIDENCE_KIND.Record ? (
+                    <a
+                      href={`https://tempus2.xyz/demos/${row.demo_id}`}
+                      target="_blank"
+                      rel="noreferrer"
+                    >
+                      {row.demo_id}
+                    </a>
+                  ) : (
+                    '—'
+                  )}
+                </span>
+              </div>
+            ))}
+          </div>
+          <p className="legend">
+            Evidence: record (in-demo), announcement (bot), command (output), observed (from +split). Wiped times are struck; shaded chart bands show the inferred wipes. A reign lasts until the next unwiped change.
+          </p>
+        </>
+      )}
+    </section>
+  )
+}
+
+/** Type, tiers, rating and author, each shown only when the index knows it. */
+function MapDetails({ entry }: { entry: MapEntry }) {
+  const details = [
+    entry.type ? MAP_TYPE_LABEL[entry.type] : null,
+    ...CLASSES.map((className) =>
+      entry.tiers?.[className] != null ? `${className} T${entry.tiers[className]}` : null
+    ),
+    entry.rating != null ? `Rated ${entry.rating}` : null,
+    entry.author ? `by ${entry.author}` : null
+  ].filter((detail): detail is string => detail != null)
+  if (details.length === 0) return null
+  return (
+    <p className="map-details">
+      {details.map((detail) => (
+        <span key={detail}>{detail}</span>
+      ))}
+    </p>
+  )
+}
+
+function applyWipeInference(timelines: ZoneTimeline[], inferWipes: boolean) {
+  if (inferWipes) return timelines
+  return timelines.map((item) => ({ ...item, timeline: withoutWipeInference(item.timeline) }))
+}
+
+function getSortValue(point: ReignPoint, key: TimelineSort) {
+  switch (key) {
+    case TIMELINE_SORT.Date:
+      return point.dateValue
+    case TIMELINE_SORT.Time:
+      return point.recordSeconds
+    case TIMELINE_SORT.Reign:
+      return point.reignDays
+    case TIMELINE_SORT.Split:
+      return point.splitSeconds
+    case TIMELINE_SORT.Improvement:
+      return point.improvementSeconds
+  }
+}
+
+function formatCorroboration(point: DataPoint) {
+  // Only show a source's date when it differs from the date the point is listed under.
+  return point.corroborating
+    .map((source) => {
+      const evidence = formatEvidence(source)
+      return source.date === point.date ? evidence : `${evidence} ${source.date}`
+    })
+    .join(', ')
+}
+
+function formatDetails(row: CsvRow, wiped = false) {
+  const segment = (row.segment ?? '').trim()
+  const evidence = formatEvidence(row)
+  const base = segment && segment !== SEGMENT_LABEL.Map ? `${segment} · ${evidence}` : evidence
+  if (!wiped) return base
+  return `${base} · wiped`
+}
+
+function WipeExplanationPanel({
+  explanations,
+  directory,
+  onSelectPoint
+}: {
+  explanations: WipeExplanation[]
+  directory: PlayerDirectory | null
+  onSelectPoint: (point: TimelinePoint) => void
+}) {
+  const wipedCount = explanations.reduce((total, item) => total + item.wiped.length, 0)
+  return (
+    <details className="record-section wipe-explanations">
+      <summary>
+        <h3>
+          Inferred wipes{' '}
+          <span>
+            {explanations.length} {explanations.length === 1 ? 'boundary' : 'boundaries'} ·{' '}
+            {wipedCount} wiped {wipedCount === 1 ? 'time' : 'times'}
+          </span>
+        </h3>
+      </summary>
+      <p className="muted">
+        A record, or an <code>irc_set</code> announcement, that is slower than the standing WR
+        can only be accepted if the faster times were removed. Each such row is a wipe boundary,
+        and every earlier time faster than it is struck as wiped. Untick “Infer wipes” to see the
+        raw sequence.
+      </p>
+      <ul className="wipe-list">
+        {explanations.map(({ boundary, trigger, wiped }) => (
+          <li key={getTimelineRowKey(boundary)}>
+            <button className="link-button" onClick={() => onSelectPoint(boundary)}>
+              {boundary.date} · {boundary.record_time}
+            </button>{' '}
+            by {getPlayerName(boundary, directory)} ({trigger}) is slower than the WR before it
+            {wiped.length > 0 ? (
+              <>
+                , so it wipes{' '}
+                {wiped.map((point, index) => (
+                  <span key={getTimelineRowKey(point)}>
+                    {index > 0 ? ', ' : ''}
+                    <button className="link-button" onClick={() => onSelectPoint(point)}>
+                      {point.record_time}
+                    </button>{' '}
+                    ({getPlayerName(point, directory)}, {point.date})
+                  </span>
+                ))}
+                .
+              </>
+            ) : (
+              '; the faster times before it were already wiped by an earlier boundary.'
+            )}
+          </li>
+        ))}
+      </ul>
+    </details>
+  )
+}
+
+function SortHeader({
+  label,
+  title,
+  sortKey,
+  sort,
+  onSort
+}: {
+  label: string
+  title?: string
+  sortKey: TimelineSort
+  sort: TableSort
+  onSort: (key: TimelineSort) => void
+}) {
+  const active = sort.key === sortKey
+  return (
+    <span>
+      <button
+        className={`sort-button${active ? ' active' : ''}`}
+        title={title}
+        onClick={() => onSort(sortKey)}
+      >
+        {label}
+        {active ? (sort.descending ? ' ↓' : ' ↑') : ''}
+      </button>
+    </span>
+  )
+}
+
+function ZoneOverview({
+  zones,
+  selectedZone,
+  overlayZones,
+  onSelectZone,
+  onToggleOverlay,
+  directory,
+  onOpenPlayer
+}: {
+  zones: ZoneEntry[]
+  selectedZone: string | null
+  overlayZones: string[]
+  onSelectZone: (zoneId: string) => void
+  onToggleOverlay: (zoneId: string) => void
+  directory: PlayerDirectory | null
+  onOpenPlayer: (key: string) => void
+}) {
+  return (
+    <details className="record-section zone-overview" open>
+      <summary>
+        <h3>
+          Zone overview <span>{zones.length} zones · tick zones to overlay them on the chart</span>
+        </h3>
+      </summary>
+      <div className="table zone-matrix">
+        <div className="table-head">
+          <span aria-label="Overlay on chart" title="Overlay on chart">
+            +
+          </span>
+          <span>Zone</span>
+          <span>Current WR</span>
+          <span>Holder</span>
+          <span>Date</span>
+          <span>Changes</span>
+          <span>Evidence</span>
+        </div>
+        {zones.map(({ zone, timeline }) => {
+          const current = timeline[timeline.length - 1]
+          const isSelected = zone.id === selectedZone
+          return (
+            <div key={zone.id} className={`table-row${isSelected ? ' highlighted' : ''}`}>
+              <span>
+                <input
+                  type="checkbox"
+                  aria-label={`Overlay ${zone.label}`}
+                  checked={isSelected || overlayZones.includes(zone.id)}
+                  disabled={isSelected}
+                  onChange={() => onToggleOverlay(zone.id)}
+                />
+              </span>
+              <span>
+                <button className="link-button" onClick={() => onSelectZone(zone.id)}>
+                  {zone.label}
+                </button>
+              </span>
+              <span>{current?.record_time ?? '—'}</span>
+              <div className="player-cell">
+                {current ? (
+                  <PlayerIdentity row={current} directory={directory} onOpenPlayer={onOpenPlayer} />
+                ) : (
+                  '—'
+                )}
+              </div>
+              <span>{current?.date ?? '—'}</span>
+              <span>{timeline.length}</span>
+              <span>{current ? formatEvidence(current) : '—'}</span>
+            </div>
+          )
+        })}
+      </div>
+    </details>
+  )
+}
+
+function ClassGapTable({ gaps }: { gaps: ClassGap[] }) {
+  return (
+    <div className="record-section">
+      <h3>
+        Current class gap <span>Demo − Solly</span>
+      </h3>
+      <div className="table gap-table">
+        <div className="table-head">
+          <span>Zone</span>
+          <span>Solly</span>
+          <span>Demo</span>
+          <span>Gap</span>
+          <span>Ratio</span>
+        </div>
+        {gaps.map((item) => (
+          <div key={item.zone?.id ?? SEGMENT_LABEL.Map} className="table-row">
+            <span>{item.zone?.label ?? SEGMENT_LABEL.Map}</span>
+            <span>{item.solly.record_time}</span>
+            <span>{item.demo.record_time}</span>
+            <span>
+              {item.gap < 0 ? '-' : '+'}
+              {formatSeconds(Math.abs(item.gap))}
+            </span>
+            <span>{(item.demo.recordSeconds / item.solly.recordSeconds).toFixed(2)}×</span>
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
+
+function TimelineFilters({
+  filter,
+  onChange
+}: {
+  filter: TimelineFilter
+  onChange: (filter: TimelineFilter) => void
+}) {
+  const kinds = Object.values(EVIDENCE_KIND)
+  const toggleKind = (kind: EvidenceKind) => {
+    const current = filter.evidence ?? kinds
+    const next = current.includes(kind)
+      ? current.filter((item) => item !== kind)
+      : kinds.filter((item) => item === kind || current.includes(item))
+    // Every kind selected is the same as no evidence filter, which keeps the URL short.
+    onChange({ ...filter, evidence: next.length === kinds.length ? null : next })
+  }
+
+  return (
+    <div className="filters timeline-filters">
+      <label className="zone-select">
+        <span>From</span>
+        <input
+          type="date"
+          value={filter.from ?? ''}
+          onChange={(event) => onChange({ ...filter, from: event.target.value || null })}
+        />
+      </label>
+      <label className="zone-select">
+        <span>To</span>
+        <input
+          type="date"
+          value={filter.to ?? ''}
+          onChange={(event) => onChange({ ...filter, to: event.target.value || null })}
+        />
+      </label>
+      <span className="evidence-filter">
+        <span>Evidence</span>
+        {kinds.map((kind) => (
+          <label key={kind}>
+            <input
+              type="checkbox"
+              checked={filter.evidence?.includes(kind) ?? true}
+              onChange={() => toggleKind(kind)}
+            />
+            {kind}
+          </label>
+        ))}
+      </span>
+      <label>
+        <input
+          type="checkbox"
+          checked={filter.hideWiped}
+          onChange={(event) => onChange({ ...filter, hideWiped: event.target.checked })}
+        />
+        Hide wiped
+      </label>
+      <label className="zone-select">
+        <span>Player</span>
+        <input
+          type="search"
+          placeholder="Name…"
+          value={filter.player}
+          onChange={(event) => onChange({ ...filter, player: event.target.value })}
+        />
+      </label>
+      {isTimelineFilterActive(filter) ? (
+        <button className="link-button" onClick={() => onChange(EMPTY_TIMELINE_FILTER)}>
+          Clear filters
+        </button>
+      ) : null}
+    </div>
+  )
+}
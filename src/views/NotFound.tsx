@@ -0,0 +1,18 @@
+export function NotFoundView({ message, onHome }: { message: string; onHome: () => void }) {
+  return (
+    <section className="panel wide">
+      <div className="panel-header">
+        <div>
+          <h2>Not found</h2>
+          <p className="muted">{message}</p>
+        </div>
+      </div>
+      <div className="empty">
+        The link may be mistyped or out of date.{' '}
+        <button className="link-button" onClick={onHome}>
+          Go to the first map
+        </button>
+      </div>
+    </section>
+  )
+}
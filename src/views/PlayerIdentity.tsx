@@ -0,0 +1,93 @@
+import {
+  buildSteamProfileUrl,
+  parseSteamCandidates,
+  parseSteamId64,
+  resolvePlayer,
+  type PlayerDirectory,
+  type PlayerRow
+} from '../data/index.ts'
+
+export function PlayerIdentity({
+  row,
+  directory,
+  onOpenPlayer
+}: {
+  row: PlayerRow
+  directory?: PlayerDirectory | null
+  onOpenPlayer?: (key: string) => void
+}) {
+  const player = resolvePlayer(row, directory)
+  // Candidates only matter while the row is not tied to one Steam ID.
+  const candidates = player?.steamId64 ? [] : parseSteamCandidates(row.steam_candidates)
+  const profileUrl = buildSteamProfileUrl(player?.steamId64 ?? undefined)
+  const name = player?.name ?? row.player
+  const alias =
+    name !== row.player.trim() ? <small className="player-alias">as {row.player}</small> : null
+
+  if (candidates.length > 0) {
+    return (
+      <details className="player-drawer">
+        <summary>
+          <span>{row.player}</span>
+          <em>{candidates.length} matches</em>
+        </summary>
+        <div className="player-drawer-list">
+          {candidates.map((candidate, index) => {
+            const url = buildSteamProfileUrl(candidate.steamId64, candidate.steamId)
+            const meta = candidate.steamId64 || candidate.steamId
+            const candidateKey = parseSteamId64(candidate.steamId64) ?? parseSteamId64(candidate.steamId)
+            return (
+              <div
+                key={`${candidate.name}-${candidate.steamId64 ?? candidate.steamId ?? index}`}
+                className="player-candidate"
+              >
+                {url ? (
+                  <a href={url} target="_blank" rel="noreferrer">
+                    {candidate.name}
+                  </a>
+                ) : (
+                  <span>{candidate.name}</span>
+                )}
+                {meta ? <span className="candidate-meta">{meta}</span> : null}
+                {onOpenPlayer && candidateKey ? (
+                  <button className="link-button" onClick={() => onOpenPlayer(candidateKey)}>
+                    Profile
+                  </button>
+                ) : null}
+              </div>
+            )
+          })}
+        </div>
+      </details>
+    )
+  }
+
+  if (onOpenPlayer && player) {
+    return (
+      <span className="player-identity">
+        <button className="player-link" onClick={() => onOpenPlayer(player.key)}>
+          {name}
+        </button>
+        {alias}
+        {profileUrl ? (
+          <a className="steam-link" href={profileUrl} target="_blank" rel="noreferrer">
+            Steam
+          </a>
+        ) : null}
+      </span>
+    )
+  }
+
+  if (profileUrl) {
+    return (
+      <span className="player-identity">
+        <a className="player-link" href={profileUrl} target="_blank" rel="noreferrer">
+          {name}
+        </a>
+        {alias}
+      </span>
+    )
+  }
+
+  return <span>{name}</span>
+}
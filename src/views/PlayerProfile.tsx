@@ -0,0 +1,180 @@
+import {
+  buildSteamProfileUrl,
+  compareZones,
+  SEGMENT_LABEL,
+  type PlayerProfile,
+  type PlayerRecord,
+  type ZoneInfo
+} from '../data/index.ts'
+import type { RequestProgress } from '../worker/dataService.ts'
+import { formatEvidence } from './format.ts'
+
+export function PlayerProfileView({
+  playerKey,
+  profile,
+  loaded,
+  progress,
+  error,
+  onOpenMap,
+  onCompare,
+  onClose
+}: {
+  playerKey: string
+  profile: PlayerProfile | null
+  loaded: boolean
+  progress: RequestProgress | null
+  error: string | null
+  onOpenMap: (map: string, className: 'Solly' | 'Demo', zone: ZoneInfo | null) => void
+  onCompare: () => void
+  onClose: () => void
+}) {
+  const current = profile?.records.filter((record) => record.current) ?? []
+  const currentMaps = current
+    .filter((record) => record.zone == null)
+    .sort((a, b) => a.map.localeCompare(b.map) || a.className.localeCompare(b.className))
+  const currentZones = current
+    .filter((record) => record.zone != null)
+    .sort(
+      (a, b) =>
+        a.map.localeCompare(b.map) ||
+        a.className.localeCompare(b.className) ||
+        compareZones(a.zone!, b.zone!)
+    )
+  const past = (profile?.records.filter((record) => !record.current) ?? []).sort(
+    (a, b) => b.point.dateValue - a.point.dateValue || a.map.localeCompare(b.map)
+  )
+  const countClass = (className: 'Solly' | 'Demo') =>
+    current.filter((record) => record.className === className).length
+  const steamUrl = profile?.steamId64 ? buildSteamProfileUrl(profile.steamId64) : null
+
+  return (
+    <section className="panel wide">
+      <div className="panel-header">
+        <div>
+          <h2>{profile?.name ?? playerKey.replace(/^name:/, '')}</h2>
+          <p className="muted">
+            Player profile
+            {profile?.aliases.length ? ` · also seen as ${profile.aliases.join(', ')}` : ''}
+          </p>
+        </div>
+        <div className="panel-controls">
+          {steamUrl ? (
+            <a className="steam-link" href={steamUrl} target="_blank" rel="noreferrer">
+              Steam profile
+            </a>
+          ) : null}
+          <button className="link-button" onClick={onCompare}>
+            Compare
+          </button>
+          <button className="link-button" onClick={onClose}>
+            Back to map
+          </button>
+        </div>
+      </div>
+
+      {error ? (
+        <div className="empty">Could not load WR history: {error}</div>
+      ) : !loaded ? (
+        <div className="loading">
+          Loading WR history across every map…
+          {progress ? ` ${progress.loaded} / ${progress.total} files` : ''}
+        </div>
+      ) : !profile ? (
+        <div className="empty">No WR history found for this player.</div>
+      ) : (
+        <>
+          <div className="stats">
+            <div>
+              <span>Current WRs</span>
+              <strong>{currentMaps.length}</strong>
+            </div>
+            <div>
+              <span>Zone records</span>
+              <strong>{currentZones.length}</strong>
+            </div>
+            <div>
+              <span>Past records</span>
+              <strong>{past.length}</strong>
+            </div>
+            <div>
+              <span>Solly / Demo</span>
+              <strong>
+                {countClass('Solly')} / {countClass('Demo')}
+              </strong>
+            </div>
+            <div>
+              <span>First record</span>
+              <strong>{profile.firstDate}</strong>
+            </div>
+            <div>
+              <span>Last record</span>
+              <strong>{profile.lastDate}</strong>
+            </div>
+          </div>
+
+          <PlayerRecordTable title="Current WRs" records={currentMaps} onOpenMap={onOpenMap} />
+          <PlayerRecordTable title="Current zone records" records={currentZones} onOpenMap={onOpenMap} />
+          <PlayerRecordTable title="Past records" records={past} onOpenMap={onOpenMap} />
+          <p className="legend">
+            Records are the timeline points this player set, from {profile.rowCount} CSV rows.
+            Wiped times are struck.
+          </p>
+        </>
+      )}
+    </section>
+  )
+}
+
+function PlayerRecordTable({
+  title,
+  records,
+  onOpenMap
+}: {
+  title: string
+  records: PlayerRecord[]
+  onOpenMap: (map: string, className: 'Solly' | 'Demo', zone: ZoneInfo | null) => void
+}) {
+  return (
+    <div className="record-section">
+      <h3>
+        {title} <span>{records.length}</span>
+      </h3>
+      {records.length === 0 ? (
+        <p className="muted">None.</p>
+      ) : (
+        <div className="table">
+          <div className="table-head record-table">
+            <span>Map</span>
+            <span>Class</span>
+            <span>Zone</span>
+            <span>Time</span>
+            <span>Date</span>
+            <span>Evidence</span>
+          </div>
+          {records.map((record) => (
+            <div
+              key={`${record.map}-${record.className}-${record.zone?.id ?? SEGMENT_LABEL.Map}-${record.point.date}-${record.point.record_time}`}
+              className={`table-row record-table${record.point.wiped ? ' wiped' : ''}`}
+            >
+              <span>
+                <button
+                  className="link-button"
+                  onClick={() => onOpenMap(record.map, record.className, record.zone)}
+                >
+                  {record.map}
+                </button>
+              </span>
+              <span>{record.className}</span>
+              <span>{record.zone?.label ?? SEGMENT_LABEL.Map}</span>
+              <span className={`time-cell${record.point.wiped ? ' wiped' : ''}`}>
+                {record.point.record_time}
+              </span>
+              <span>{record.point.date}</span>
+              <span>{formatEvidence(record.point)}</span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,272 @@
+import { useMemo, useState } from 'react'
+import {
+  SEGMENT_LABEL,
+  type PlayerDirectory,
+  type WorldRecord,
+  type WorldSnapshot,
+  type ZoneInfo
+} from '../data/index.ts'
+import { VIEW_MODE, type Route } from '../router.ts'
+import type { RequestProgress } from '../worker/dataService.ts'
+import { formatReign } from './format.ts'
+import { PlayerIdentity } from './PlayerIdentity.tsx'
+
+type SnapshotChange = Partial<Pick<Route, 'date' | 'className' | 'view'>>
+
+const SNAPSHOT_SORT = {
+  Map: 'map',
+  Longest: 'longest',
+  Recent: 'recent',
+} as const
+
+type SnapshotSort = (typeof SNAPSHOT_SORT)[keyof typeof SNAPSHOT_SORT]
+
+const SNAPSHOT_PAGE_SIZE = 100
+
+const SNAPSHOT_HOLDER_LIMIT = 20
+
+export function SnapshotView({
+  date,
+  className,
+  includeZones,
+  snapshot,
+  directory,
+  progress,
+  error,
+  onChange,
+  onOpenMap,
+  onOpenPlayer
+}: {
+  date: string
+  className: 'Solly' | 'Demo'
+  includeZones: boolean
+  snapshot: WorldSnapshot | null
+  directory: PlayerDirectory | null
+  progress: RequestProgress | null
+  error: string | null
+  onChange: (change: SnapshotChange) => void
+  onOpenMap: (map: string, className: 'Solly' | 'Demo', zone: ZoneInfo | null) => void
+  onOpenPlayer: (key: string) => void
+}) {
+  const [sort, setSort] = useState<SnapshotSort>(SNAPSHOT_SORT.Map)
+  const [pageIndex, setPageIndex] = useState(0)
+  const [showAllHolders, setShowAllHolders] = useState(false)
+
+  const records = useMemo(() => {
+    const list = snapshot?.records ?? []
+    if (sort === SNAPSHOT_SORT.Map) return list
+    return [...list].sort((a, b) =>
+      sort === SNAPSHOT_SORT.Longest ? b.days - a.days : a.days - b.days
+    )
+  }, [snapshot, sort])
+
+  const pageCount = Math.max(1, Math.ceil(records.length / SNAPSHOT_PAGE_SIZE))
+  const pageStart = pageIndex * SNAPSHOT_PAGE_SIZE
+  const visible = records.slice(pageStart, pageStart + SNAPSHOT_PAGE_SIZE)
+  const holders = showAllHolders
+    ? snapshot?.holders ?? []
+    : (snapshot?.holders ?? []).slice(0, SNAPSHOT_HOLDER_LIMIT)
+  const oldest = snapshot?.records.reduce<WorldRecord | null>(
+    (best, record) => (!best || record.days > best.days ? record : best),
+    null
+  )
+
+  return (
+    <section className="panel wide">
+      <div className="panel-header">
+        <div>
+          <h2>Snapshot</h2>
+          <p className="muted">
+            Every {className} {includeZones ? 'map and zone record' : 'map record'} as it stood at
+            the end of {date}
+          </p>
+        </div>
+      </div>
+
+      <div className="filters">
+        <label className="zone-select">
+          <span>Date</span>
+          <input
+            type="date"
+            value={date}
+            max={new Date().toISOString().slice(0, 10)}
+            onChange={(event) => {
+              if (event.target.value) onChange({ date: event.target.value })
+            }}
+          />
+        </label>
+        <label className="zone-select">
+          <span>Class</span>
+          <select
+            value={className}
+            onChange={(event) => onChange({ className: event.target.value as 'Solly' | 'Demo' })}
+          >
+            <option value="Solly">Solly</option>
+            <option value="Demo">Demo</option>
+          </select>
+        </label>
+        <label>
+          <input
+            type="checkbox"
+            checked={includeZones}
+            onChange={(event) =>
+              onChange({ view: event.target.checked ? VIEW_MODE.Zones : VIEW_MODE.Map })
+            }
+          />
+          Include zones
+        </label>
+        <label className="zone-select">
+          <span>Sort</span>
+          <select
+            value={sort}
+            onChange={(event) => {
+              setSort(event.target.value as SnapshotSort)
+              setPageIndex(0)
+            }}
+          >
+            <option value={SNAPSHOT_SORT.Map}>Map</option>
+            <option value={SNAPSHOT_SORT.Longest}>Longest standing</option>
+            <option value={SNAPSHOT_SORT.Recent}>Most recently set</option>
+          </select>
+        </label>
+      </div>
+
+      {error ? (
+        <div className="empty">Could not load WR history: {error}</div>
+      ) : !snapshot ? (
+        <div className="loading">
+          Loading WR history across every map…
+          {progress ? ` ${progress.loaded} / ${progress.total} files` : ''}
+        </div>
+      ) : snapshot.records.length === 0 ? (
+        <div className="empty">No {className} records existed yet on {date}.</div>
+      ) : (
+        <>
+          <div className="stats">
+            <div>
+              <span>Records</span>
+              <strong>{snapshot.records.length}</strong>
+            </div>
+            <div>
+              <span>Holders</span>
+              <strong>{snapshot.holders.length}</strong>
+            </div>
+            <div>
+              <span>Most held</span>
+              <strong>{snapshot.holders[0]?.records ?? '—'}</strong>
+              {snapshot.holders[0] ? <small>{snapshot.holders[0].name}</small> : null}
+            </div>
+            <div>
+              <span>Longest standing</span>
+              <strong>{oldest ? formatReign(oldest.days) : '—'}</strong>
+              {oldest ? (
+                <small>
+                  {oldest.map}
+                  {oldest.zone ? ` · ${oldest.zone.label}` : ''}
+                </small>
+              ) : null}
+            </div>
+          </div>
+
+          <div className="record-section">
+            <h3>
+              Top holders <span>on {date}</span>
+            </h3>
+            <div className="table holder-table">
+              <div className="table-head">
+                <span>#</span>
+                <span>Player</span>
+                <span>Records</span>
+                <span>Map WRs</span>
+              </div>
+              {holders.map((holder, index) => (
+                <div key={holder.key} className="table-row">
+                  <span>{index + 1}</span>
+                  <span>
+                    <button className="link-button" onClick={() => onOpenPlayer(holder.key)}>
+                      {holder.name}
+                    </button>
+                  </span>
+                  <span>{holder.records}</span>
+                  <span>{holder.mapRecords}</span>
+                </div>
+              ))}
+            </div>
+            {snapshot.holders.length > SNAPSHOT_HOLDER_LIMIT ? (
+              <button className="link-button" onClick={() => setShowAllHolders((value) => !value)}>
+                {showAllHolders ? 'Show top holders' : `Show all ${snapshot.holders.length}`}
+              </button>
+            ) : null}
+          </div>
+
+          <div className="record-section">
+            <h3>
+              Records <span>{snapshot.records.length}</span>
+            </h3>
+            <div className="table snapshot-table">
+              <div className="table-head">
+                <span>Map</span>
+                <span>Zone</span>
+                <span>Time</span>
+                <span>Holder</span>
+                <span>Set on</span>
+                <span>Stood</span>
+              </div>
+              {visible.map((record) => (
+                <div
+                  key={`${record.map}-${record.zone?.id ?? SEGMENT_LABEL.Map}`}
+                  className="table-row"
+                >
+                  <span>
+                    <button
+                      className="link-button"
+                      onClick={() => onOpenMap(record.map, record.className, record.zone)}
+                    >
+                      {record.map}
+                    </button>
+                  </span>
+                  <span>{record.zone?.label ?? SEGMENT_LABEL.Map}</span>
+                  <span>{record.point.record_time}</span>
+                  <div className="player-cell">
+                    <PlayerIdentity
+                      row={record.point}
+                      directory={directory}
+                      onOpenPlayer={onOpenPlayer}
+                    />
+                  </div>
+                  <span>{record.point.date}</span>
+                  <span>{formatReign(record.days)}</span>
+                </div>
+              ))}
+            </div>
+            {pageCount > 1 ? (
+              <div className="pager">
+                <button
+                  className="link-button"
+                  disabled={pageIndex === 0}
+                  onClick={() => setPageIndex((value) => Math.max(0, value - 1))}
+                >
+                  Previous
+                </button>
+                <span className="muted">
+                  Page {pageIndex + 1} of {pageCount}
+                </span>
+                <button
+                  className="link-button"
+                  disabled={pageIndex + 1 >= pageCount}
+                  onClick={() => setPageIndex((value) => value + 1)}
+                >
+                  Next
+                </button>
+              </div>
+            ) : null}
+          </div>
+          <p className="legend">
+            Timelines are rebuilt from the rows known on {date}, so wipes only count once the
+            record that revealed them had been set.
+          </p>
+        </>
+      )}
+    </section>
+  )
+}
@@ -0,0 +1,422 @@
+import { useState } from 'react'
+import { EVIDENCE_STRENGTH, type CommunityPeriod, type CommunityStats } from '../data/index.ts'
+import type { RequestProgress } from '../worker/dataService.ts'
+import { buildValueTicks, CLASS_COLOR, SERIES_COLORS } from './chart.ts'
+import { CLASSES } from './maps.ts'
+
+const STATS_GRANULARITY = {
+  Month: 'month',
+  Year: 'year',
+} as const
+
+type StatsGranularity = (typeof STATS_GRANULARITY)[keyof typeof STATS_GRANULARITY]
+
+const BAR_LAYOUT = {
+  Stacked: 'stacked',
+  Grouped: 'grouped',
+  Share: 'share',
+} as const
+
+type BarLayout = (typeof BAR_LAYOUT)[keyof typeof BAR_LAYOUT]
+
+const MONTH_LABELS = [
+  'Jan',
+  'Feb',
+  'Mar',
+  'Apr',
+  'May',
+  'Jun',
+  'Jul',
+  'Aug',
+  'Sep',
+  'Oct',
+  'Nov',
+  'Dec',
+]
+
+export function StatsView({
+  stats,
+  progress,
+  error
+}: {
+  stats: CommunityStats | null
+  progress: RequestProgress | null
+  error: string | null
+}) {
+  const [granularity, setGranularity] = useState<StatsGranularity>(STATS_GRANULARITY.Month)
+  const [calendarYear, setCalendarYear] = useState<string | null>(null)
+
+  const periods = (granularity === STATS_GRANULARITY.Month ? stats?.months : stats?.years) ?? []
+  const years = stats?.years ?? []
+  const heatmapYear = calendarYear ?? years[years.length - 1]?.period ?? null
+  const total = years.reduce((sum, year) => sum + year.changes.Solly + year.changes.Demo, 0)
+  const busiestYear = years.reduce<CommunityPeriod | null>(
+    (best, year) =>
+      !best || year.changes.Solly + year.changes.Demo > best.changes.Solly + best.changes.Demo
+        ? year
+        : best,
+    null
+  )
+  const mostHolders = years.reduce<CommunityPeriod | null>(
+    (best, year) => (!best || year.holders.All > best.holders.All ? year : best),
+    null
+  )
+  const busiestDay = Object.entries(stats?.days ?? {}).reduce<[string, number] | null>(
+    (best, day) => (!best || day[1] > best[1] ? day : best),
+    null
+  )
+
+  return (
+    <section className="panel wide">
+      <div className="panel-header">
+        <div>
+          <h2>Community stats</h2>
+          <p className="muted">
+            WR activity across every map, zone and class
+            {years[0] ? ` since ${years[0].period}` : ''}
+          </p>
+        </div>
+      </div>
+
+      {error ? (
+        <div className="empty">Could not load WR history: {error}</div>
+      ) : !stats ? (
+        <div className="loading">
+          Loading WR history across every map…
+          {progress ? ` ${progress.loaded} / ${progress.total} files` : ''}
+        </div>
+      ) : years.length === 0 ? (
+        <div className="empty">No WR history to describe yet.</div>
+      ) : (
+        <>
+          <div className="stats">
+            <div>
+              <span>WR changes</span>
+              <strong>{total.toLocaleString()}</strong>
+            </div>
+            <div>
+              <span>Busiest year</span>
+              <strong>{busiestYear?.period ?? '—'}</strong>
+              {busiestYear ? (
+                <small>
+                  {(busiestYear.changes.Solly + busiestYear.changes.Demo).toLocaleString()} changes
+                </small>
+              ) : null}
+            </div>
+            <div>
+              <span>Busiest day</span>
+              <strong>{busiestDay?.[0] ?? '—'}</strong>
+              {busiestDay ? <small>{busiestDay[1]} changes</small> : null}
+            </div>
+            <div>
+              <span>Most WR holders</span>
+              <strong>{mostHolders?.period ?? '—'}</strong>
+              {mostHolders ? <small>{mostHolders.holders.All} players</small> : null}
+            </div>
+          </div>
+
+          <div className="record-section">
+            <div className="stats-chart-header">
+              <h3>
+                WR changes <span>per {granularity} and class</span>
+              </h3>
+              <div className="class-toggle view-toggle">
+                {Object.values(STATS_GRANULARITY).map((value) => (
+                  <button
+                    key={value}
+                    className={granularity === value ? 'active' : ''}
+                    onClick={() => setGranularity(value)}
+                  >
+                    {value === STATS_GRANULARITY.Month ? 'Month' : 'Year'}
+                  </button>
+                ))}
+              </div>
+            </div>
+            <BarChart
+              label="WR changes"
+              categories={periods.map((period) => period.period)}
+              series={CLASSES.map((className) => ({
+                id: className,
+                label: className,
+                color: CLASS_COLOR[className],
+                values: periods.map((period) => period.changes[className])
+              }))}
+            />
+          </div>
+
+          <div className="record-section">
+            <h3>
+              Record holders <span>distinct players who set a WR each year</span>
+            </h3>
+            <BarChart
+              label="Record holders"
+              layout={BAR_LAYOUT.Grouped}
+              categories={years.map((year) => year.period)}
+              series={[
+                ...CLASSES.map((className) => ({
+                  id: className,
+                  label: className,
+                  color: CLASS_COLOR[className],
+                  values: years.map((year) => year.holders[className])
+                })),
+                {
+                  id: 'all',
+                  label: 'Either class',
+                  color: 'var(--muted)',
+                  values: years.map((year) => year.holders.All)
+                }
+              ]}
+            />
+          </div>
+
+          <div className="record-section">
+            <h3>
+              Evidence <span>share of WR changes by evidence kind each year</span>
+            </h3>
+            <BarChart
+              label="Evidence share"
+              layout={BAR_LAYOUT.Share}
+              categories={years.map((year) => year.period)}
+              series={EVIDENCE_STRENGTH.map((kind, index) => ({
+                id: kind,
+                label: kind,
+                color: SERIES_COLORS[index + 2],
+                values: years.map((year) => year.evidence[kind])
+              }))}
+            />
+          </div>
+
+          <div className="record-section">
+            <div className="stats-chart-header">
+              <h3>
+                Calendar <span>WR changes per day</span>
+              </h3>
+              <label className="zone-select">
+                <span>Year</span>
+                <select
+                  value={heatmapYear ?? ''}
+                  onChange={(event) => setCalendarYear(event.target.value)}
+                >
+                  {years.map((year) => (
+                    <option key={year.period} value={year.period}>
+                      {year.period}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            </div>
+            {heatmapYear ? <CalendarHeatmap year={heatmapYear} days={stats.days} /> : null}
+          </div>
+          <p className="legend">
+            A WR change is any point on a map or zone timeline, wiped ones included: they were the
+            WR when they were set. Players are counted once per period under their resolved
+            identity.
+          </p>
+        </>
+      )}
+    </section>
+  )
+}
+
+/**
+ * Bars over evenly spaced categories, drawn like `TimelineChart`: stacked totals, series side by
+ * side, or each category's split as a share of 100%.
+ */
+function BarChart({
+  label,
+  categories,
+  series,
+  layout = BAR_LAYOUT.Stacked
+}: {
+  label: string
+  categories: string[]
+  series: Array<{ id: string; label: string; color: string; values: number[] }>
+  layout?: BarLayout
+}) {
+  const padding = 48
+  const width = 900
+  const height = 260
+  const plotWidth = width - padding * 2
+  const plotHeight = height - padding * 2
+
+  const totals = categories.map((_, index) =>
+    series.reduce((sum, item) => sum + item.values[index], 0)
+  )
+  const maxY =
+    layout === BAR_LAYOUT.Share
+      ? 1
+      : Math.max(
+          1,
+          ...(layout === BAR_LAYOUT.Grouped ? series.flatMap((item) => item.values) : totals)
+        )
+  const yTicks = buildValueTicks(0, maxY, null)
+  const scaleY = (value: number) => height - padding - (value / maxY) * plotHeight
+  const band = plotWidth / Math.max(1, categories.length)
+  const barWidth = Math.max(1, band * 0.8)
+  // Label only every nth category so monthly axes stay readable.
+  const labelEvery = Math.ceil(categories.length / 12)
+  const formatValue = (value: number) =>
+    layout === BAR_LAYOUT.Share ? `${Math.round(value * 100)}%` : value.toLocaleString()
+
+  return (
+    <div className="chart-frame">
+      <svg viewBox={`0 0 ${width} ${height}`} role="img" aria-label={label}>
+        <rect x="0" y="0" width={width} height={height} rx="18" fill="var(--panel)" />
+        <g stroke="var(--grid)" strokeWidth="1">
+          {yTicks.map((tick) => (
+            <line
+              key={tick}
+              x1={padding}
+              x2={width - padding}
+              y1={scaleY(tick)}
+              y2={scaleY(tick)}
+            />
+          ))}
+        </g>
+        <g fill="var(--muted)" fontSize="11">
+          {yTicks.map((tick) => (
+            <text key={tick} x={padding - 6} y={scaleY(tick) + 4} textAnchor="end">
+              {formatValue(tick)}
+            </text>
+          ))}
+          {categories.map((category, index) =>
+            index % labelEvery === 0 ? (
+              <text
+                key={category}
+                x={padding + band * (index + 0.5)}
+                y={height - padding + 16}
+                textAnchor="middle"
+              >
+                {category}
+              </text>
+            ) : null
+          )}
+        </g>
+        {categories.map((category, index) => {
+          const left = padding + band * index + (band - barWidth) / 2
+          let stacked = 0
+          return (
+            <g key={category}>
+              {series.map((item, seriesIndex) => {
+                const value = item.values[index]
+                if (value <= 0) return null
+                const share = totals[index] > 0 ? value / totals[index] : 0
+                const title = `${category} · ${item.label}: ${value.toLocaleString()}${
+                  layout === BAR_LAYOUT.Share ? ` (${Math.round(share * 100)}%)` : ''
+                }`
+                if (layout === BAR_LAYOUT.Grouped) {
+                  const slot = barWidth / series.length
+                  return (
+                    <rect
+                      key={item.id}
+                      x={left + slot * seriesIndex}
+                      y={scaleY(value)}
+                      width={Math.max(1, slot - 1)}
+                      height={height - padding - scaleY(value)}
+                      fill={item.color}
+                    >
+                      <title>{title}</title>
+                    </rect>
+                  )
+                }
+                const size = layout === BAR_LAYOUT.Share ? share : value
+                const bottom = stacked
+                stacked += size
+                return (
+                  <rect
+                    key={item.id}
+                    x={left}
+                    y={scaleY(bottom + size)}
+                    width={barWidth}
+                    height={scaleY(bottom) - scaleY(bottom + size)}
+                    fill={item.color}
+                  >
+                    <title>{title}</title>
+                  </rect>
+                )
+              })}
+            </g>
+          )
+        })}
+      </svg>
+      <div className="chart-legend">
+        {series.map((item) => (
+          <span key={item.id}>
+            <i style={{ background: item.color }} />
+            {item.label}
+          </span>
+        ))}
+      </div>
+    </div>
+  )
+}
+
+/** One year of daily counts, a column per week starting on Sunday. */
+function CalendarHeatmap({ year, days }: { year: string; days: Record<string, number> }) {
+  const cell = 13
+  const gap = 3
+  const left = 32
+  const top = 22
+  const day = 86_400_000
+  const start = Date.UTC(Number(year), 0, 1)
+  const end = Date.UTC(Number(year) + 1, 0, 1)
+  const offset = new Date(start).getUTCDay()
+  const cells: Array<{ date: string; count: number; column: number; row: number }> = []
+  for (let value = start; value < end; value += day) {
+    const index = (value - start) / day + offset
+    const date = new Date(value).toISOString().slice(0, 10)
+    cells.push({ date, count: days[date] ?? 0, column: Math.floor(index / 7), row: index % 7 })
+  }
+  const max = Math.max(1, ...cells.map((item) => item.count))
+  const columns = cells[cells.length - 1].column + 1
+  const width = left + columns * (cell + gap)
+  const height = top + 7 * (cell + gap)
+  const active = cells.filter((item) => item.count > 0).length
+
+  return (
+    <div className="chart-frame calendar-heatmap">
+      <svg
+        viewBox={`0 0 ${width} ${height}`}
+        role="img"
+        aria-label={`WR changes per day in ${year}: ${active} active days`}
+      >
+        <g fill="var(--muted)" fontSize="10">
+          {cells
+            .filter((item) => item.date.endsWith('-01'))
+            .map((item) => (
+              <text key={item.date} x={left + item.column * (cell + gap)} y={top - 8}>
+                {MONTH_LABELS[Number(item.date.slice(5, 7)) - 1]}
+              </text>
+            ))}
+          {['Mon', 'Wed', 'Fri'].map((label, index) => (
+            <text key={label} x={0} y={top + (index * 2 + 1) * (cell + gap) + cell - 2}>
+              {label}
+            </text>
+          ))}
+        </g>
+        {cells.map((item) => (
+          <rect
+            key={item.date}
+            x={left + item.column * (cell + gap)}
+            y={top + item.row * (cell + gap)}
+            width={cell}
+            height={cell}
+            rx="3"
+            fill={item.count > 0 ? 'var(--accent)' : 'var(--grid)'}
+            // Square root so a handful of busy days do not wash out the rest of the year.
+            opacity={item.count > 0 ? 0.2 + 0.8 * Math.sqrt(item.count / max) : 1}
+          >
+            <title>
+              {item.date}: {item.count} WR {item.count === 1 ? 'change' : 'changes'}
+            </title>
+          </rect>
+        ))}
+      </svg>
+      <div className="chart-legend">
+        <span>
+          {active} active {active === 1 ? 'day' : 'days'} · busiest {max} changes
+        </span>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,441 @@
+import { useId, useRef, useState } from 'react'
+import {
+  EVIDENCE_KIND,
+  explainWipes,
+  formatSeconds,
+  type DataPoint,
+  type PlayerDirectory,
+  type TimelinePoint
+} from '../data/index.ts'
+import { buildChartSvg, downloadBlob, renderChartPng } from '../exports.ts'
+import {
+  buildDateTicks,
+  buildValueTicks,
+  Y_AXIS,
+  Y_AXIS_LABEL,
+  type ChartSeries,
+  type YAxisMode
+} from './chart.ts'
+import {
+  formatDate,
+  formatEvidence,
+  formatSignedSeconds,
+  getPlayerName,
+  getTimelineRowKey
+} from './format.ts'
+
+// Tick spacing for time axes, in seconds, so ticks land on round split times.
+const SECOND_TICK_STEPS = [
+  0.01, 0.02, 0.05, 0.1, 0.2, 0.5, 1, 2, 5, 10, 15, 30, 60, 120, 300, 600, 900, 1800, 3600
+]
+
+function formatSignedPercent(fraction: number) {
+  return `${fraction < 0 ? '-' : '+'}${(Math.abs(fraction) * 100).toFixed(1)}%`
+}
+
+export function TimelineChart({
+  series,
+  yAxis = Y_AXIS.Time,
+  directory = null,
+  onSelectPoint,
+  exportOptions
+}: {
+  series: ChartSeries[]
+  yAxis?: YAxisMode
+  directory?: PlayerDirectory | null
+  onSelectPoint?: (seriesId: string, point: DataPoint) => void
+  exportOptions?: { title: string; subtitle: string; fileName: string }
+}) {
+  const padding = 48
+  const width = 900
+  const height = 320
+  const plotWidth = width - padding * 2
+  const plotHeight = height - padding * 2
+
+  const clipId = useId()
+  const svgRef = useRef<SVGSVGElement>(null)
+  const [hovered, setHovered] = useState<{ item: ChartSeries; point: TimelinePoint } | null>(null)
+  const [zoom, setZoom] = useState<[number, number] | null>(null)
+  const [exportError, setExportError] = useState<string | null>(null)
+  const [drag, setDrag] = useState<{
+    mode: 'brush' | 'pan'
+    origin: number
+    current: number
+    domain: [number, number]
+  } | null>(null)
+
+  // Relative axes plot each time against that series' current WR (its baseline or last point).
+  const baselines = new Map(
+    series.map((item) => [
+      item.id,
+      item.baseline ?? item.points[item.points.length - 1]?.recordSeconds ?? 0
+    ])
+  )
+  const valueOf = (item: ChartSeries, point: DataPoint) => {
+    const current = baselines.get(item.id) ?? point.recordSeconds
+    switch (yAxis) {
+      case Y_AXIS.Gap:
+        return point.recordSeconds - current
+      case Y_AXIS.Relative:
+        return point.recordSeconds / (current || 1)
+      default:
+        return point.recordSeconds
+    }
+  }
+
+  const dates = series.flatMap((item) => item.points.map((point) => point.dateValue))
+  const fullMinX = Math.min(...dates)
+  const fullMaxX = Math.max(...dates)
+  const [minX, maxX] = zoom ?? [fullMinX, fullMaxX]
+
+  // Fit the y range to what is visible, including the step carried in from the left edge.
+  const visibleValues = series.flatMap((item) => {
+    const before = item.points.filter((point) => point.dateValue < minX)
+    const inside = item.points.filter((point) => point.dateValue >= minX && point.dateValue <= maxX)
+    const carried = before.length > 0 ? [before[before.length - 1]] : []
+    return [...carried, ...inside].map((point) => valueOf(item, point))
+  })
+  const values =
+    visibleValues.length > 0
+      ? visibleValues
+      : series.flatMap((item) => item.points.map((point) => valueOf(item, point)))
+  const minY = Math.min(...values)
+  const maxY = Math.max(...values)
+
+  const project = (value: number) =>
+    yAxis === Y_AXIS.Log ? Math.log(Math.max(value, 0.001)) : value
+  const spanY = Math.max(yAxis === Y_AXIS.Time ? 1 : 0.0001, project(maxY) - project(minY))
+
+  const scaleX = (value: number) =>
+    padding + ((value - minX) / Math.max(1, maxX - minX)) * plotWidth
+  const scaleY = (value: number) =>
+    padding + (1 - (project(value) - project(minY)) / spanY) * plotHeight
+  const formatValue = (value: number) => {
+    switch (yAxis) {
+      case Y_AXIS.Gap:
+        return formatSignedSeconds(value)
+      case Y_AXIS.Relative:
+        return formatSignedPercent(value - 1)
+      default:
+        return formatSeconds(value)
+    }
+  }
+
+  const xTicks = buildDateTicks(minX, maxX)
+  const yTicks = buildValueTicks(minY, maxY, yAxis === Y_AXIS.Relative ? null : SECOND_TICK_STEPS)
+
+  const pointColor = (item: ChartSeries, point: DataPoint) => {
+    // With several series the colour identifies the series rather than the evidence kind.
+    if (series.length > 1) return item.color
+    switch (point.evidence) {
+      case EVIDENCE_KIND.Record:
+        return 'var(--accent)'
+      case EVIDENCE_KIND.Announcement:
+        return 'var(--accent-soft)'
+      case EVIDENCE_KIND.Command:
+        return 'var(--muted)'
+      case EVIDENCE_KIND.Observed:
+        return 'var(--warn)'
+      default:
+        return 'var(--accent)'
+    }
+  }
+
+  const toChartX = (clientX: number) => {
+    const rect = svgRef.current?.getBoundingClientRect()
+    if (!rect || rect.width === 0) return padding
+    const x = ((clientX - rect.left) / rect.width) * width
+    return Math.min(width - padding, Math.max(padding, x))
+  }
+  const invertX = (x: number, domain: [number, number]) =>
+    domain[0] + ((x - padding) / plotWidth) * (domain[1] - domain[0])
+
+  const clampDomain = (start: number, end: number): [number, number] => {
+    const span = end - start
+    if (start < fullMinX) return [fullMinX, fullMinX + span]
+    if (end > fullMaxX) return [fullMaxX - span, fullMaxX]
+    return [start, end]
+  }
+
+  const panBy = (fraction: number) => {
+    if (!zoom) return
+    const shift = (zoom[1] - zoom[0]) * fraction
+    setZoom(clampDomain(zoom[0] + shift, zoom[1] + shift))
+  }
+
+  const handlePointerDown = (event: React.PointerEvent<SVGRectElement>) => {
+    const x = toChartX(event.clientX)
+    event.currentTarget.setPointerCapture(event.pointerId)
+    setDrag({
+      mode: zoom && event.shiftKey ? 'pan' : 'brush',
+      origin: x,
+      current: x,
+      domain: [minX, maxX]
+    })
+  }
+
+  const handlePointerMove = (event: React.PointerEvent<SVGRectElement>) => {
+    if (!drag) return
+    const x = toChartX(event.clientX)
+    setDrag({ ...drag, current: x })
+    if (drag.mode === 'pan') {
+      const shift = invertX(drag.origin, drag.domain) - invertX(x, drag.domain)
+      setZoom(clampDomain(drag.domain[0] + shift, drag.domain[1] + shift))
+    }
+  }
+
+  const exportChart = (format: 'svg' | 'png') => {
+    if (!svgRef.current || !exportOptions) return
+    const image = buildChartSvg(svgRef.current, {
+      title: exportOptions.title,
+      subtitle: exportOptions.subtitle,
+      xLabel: 'Date',
+      yLabel: Y_AXIS_LABEL[yAxis],
+      series
+    })
+    const fileName = `${exportOptions.fileName}_chart.${format}`
+    setExportError(null)
+    if (format === 'svg') {
+      downloadBlob(new Blob([image.text], { type: 'image/svg+xml' }), fileName)
+      return
+    }
+    renderChartPng(image)
+      .then((blob) => downloadBlob(blob, fileName))
+      .catch((error: unknown) => {
+        setExportError(error instanceof Error ? error.message : 'Could not export the chart.')
+      })
+  }
+
+  const handlePointerUp = () => {
+    if (drag?.mode === 'brush' && Math.abs(drag.current - drag.origin) > 6) {
+      const start = invertX(Math.min(drag.origin, drag.current), drag.domain)
+      const end = invertX(Math.max(drag.origin, drag.current), drag.domain)
+      setZoom([start, end])
+    }
+    setDrag(null)
+  }
+
+  return (
+    <div className="chart-frame">
+      <svg
+        ref={svgRef}
+        viewBox={`0 0 ${width} ${height}`}
+        role="img"
+        aria-label="WR history"
+        onDoubleClick={() => setZoom(null)}
+      >
+        <defs>
+          <clipPath id={clipId}>
+            <rect x={padding - 6} y={0} width={plotWidth + 12} height={height} />
+          </clipPath>
+        </defs>
+        <rect x="0" y="0" width={width} height={height} rx="18" fill="var(--panel)" />
+        <g stroke="var(--grid)" strokeWidth="1">
+          {yTicks.map((tick) => {
+            const y = scaleY(tick)
+            return <line key={tick} x1={padding} x2={width - padding} y1={y} y2={y} />
+          })}
+          {xTicks.map((tick) => {
+            const x = scaleX(tick.value)
+            return <line key={tick.value} x1={x} x2={x} y1={padding} y2={height - padding} />
+          })}
+        </g>
+        <g fill="var(--muted)" fontSize="11">
+          {yTicks.map((tick) => (
+            <text key={tick} x={padding - 6} y={scaleY(tick) + 4} textAnchor="end">
+              {formatValue(tick)}
+            </text>
+          ))}
+          {xTicks.map((tick) => (
+            <text
+              key={tick.value}
+              x={scaleX(tick.value)}
+              y={height - padding + 16}
+              textAnchor="middle"
+            >
+              {tick.label}
+            </text>
+          ))}
+        </g>
+        <rect
+          className="chart-brush-area"
+          x={padding}
+          y={padding}
+          width={plotWidth}
+          height={plotHeight}
+          fill="transparent"
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerCancel={() => setDrag(null)}
+        />
+        {drag?.mode === 'brush' ? (
+          <rect
+            x={Math.min(drag.origin, drag.current)}
+            y={padding}
+            width={Math.abs(drag.current - drag.origin)}
+            height={plotHeight}
+            fill="var(--accent-soft)"
+            opacity={0.35}
+            pointerEvents="none"
+          />
+        ) : null}
+        <g clipPath={`url(#${clipId})`}>
+          {/* Inferred wipes: a band over the wiped times and a dashed line at the boundary. */}
+          <g className="wipe-bands" pointerEvents="none">
+            {series.flatMap((item) =>
+              explainWipes(item.points).map(({ boundary, wiped }) => {
+                const end = scaleX(boundary.dateValue)
+                const start = wiped.length > 0 ? scaleX(wiped[0].dateValue) : end
+                return (
+                  <g key={`${item.id}-${getTimelineRowKey(boundary)}`}>
+                    <rect
+                      x={start}
+                      y={padding}
+                      width={end - start}
+                      height={plotHeight}
+                      fill="var(--warn)"
+                      opacity={0.12}
+                    />
+                    <line
+                      x1={end}
+                      x2={end}
+                      y1={padding}
+                      y2={height - padding}
+                      stroke="var(--warn)"
+                      strokeDasharray="4 4"
+                    />
+                  </g>
+                )
+              })
+            )}
+          </g>
+          {series.map((item) => (
+            <g key={item.id}>
+              <path
+                d={buildStepPath(item.points, scaleX, (point) => scaleY(valueOf(item, point)))}
+                fill="none"
+                stroke={item.color}
+                strokeWidth="3"
+                pointerEvents="none"
+              />
+              {item.points.map((point) => {
+                const visible = point.dateValue >= minX && point.dateValue <= maxX
+                const isHovered = hovered?.point === point
+                const player = getPlayerName(point, directory)
+                return (
+                  <circle
+                    key={`${point.date}-${point.record_time}-${point.segment}-${point.evidence_source}`}
+                    className="chart-point"
+                    cx={scaleX(point.dateValue)}
+                    cy={scaleY(valueOf(item, point))}
+                    r={isHovered ? 6 : 3}
+                    fill={pointColor(item, point)}
+                    opacity={point.wiped ? 0.25 : 1}
+                    tabIndex={visible ? 0 : -1}
+                    aria-label={`${point.record_time} by ${player} on ${point.date}`}
+                    onPointerEnter={() => setHovered({ item, point })}
+                    onPointerLeave={() => setHovered(null)}
+                    onFocus={() => setHovered({ item, point })}
+                    onBlur={() => setHovered(null)}
+                    onClick={() => onSelectPoint?.(item.id, point)}
+                    onKeyDown={(event) => {
+                      if (event.key === 'Enter' || event.key === ' ') {
+                        event.preventDefault()
+                        onSelectPoint?.(item.id, point)
+                      }
+                    }}
+                  />
+                )
+              })}
+            </g>
+          ))}
+        </g>
+      </svg>
+      {series.length > 1 ? (
+        <div className="chart-legend">
+          {series.map((item) => (
+            <span key={item.id}>
+              <i style={{ background: item.color }} />
+              {item.label}
+            </span>
+          ))}
+        </div>
+      ) : null}
+      {hovered ? (
+        <div
+          className="chart-tooltip"
+          style={{
+            left: `${(scaleX(hovered.point.dateValue) / width) * 100}%`,
+            top: `${(scaleY(valueOf(hovered.item, hovered.point)) / height) * 100}%`
+          }}
+        >
+          <strong>{hovered.point.record_time}</strong>
+          {series.length > 1 ? <span>{hovered.item.label}</span> : null}
+          <span>{getPlayerName(hovered.point, directory)}</span>
+          <span>
+            {formatEvidence(hovered.point)}
+            {hovered.point.corroborating.length > 0
+              ? ` · +${hovered.point.corroborating.length} corroborating`
+              : ''}
+          </span>
+          <span>
+            {hovered.point.date}
+            {hovered.point.wiped ? ' · wiped' : ''}
+            {hovered.point.wipedBoundary ? ' · wipe boundary' : ''}
+          </span>
+        </div>
+      ) : null}
+      <div className="chart-controls">
+        <span className="muted">
+          {zoom
+            ? `${formatDate(new Date(minX).toISOString())} to ${formatDate(
+                new Date(maxX).toISOString()
+              )} · shift-drag to pan, double-click to reset`
+            : 'Drag across the chart to zoom'}
+        </span>
+        {zoom ? (
+          <span className="chart-zoom-buttons">
+            <button className="link-button" onClick={() => panBy(-0.5)} aria-label="Pan earlier">
+              ←
+            </button>
+            <button className="link-button" onClick={() => panBy(0.5)} aria-label="Pan later">
+              →
+            </button>
+            <button className="link-button" onClick={() => setZoom(null)}>
+              Reset zoom
+            </button>
+          </span>
+        ) : null}
+        {exportOptions ? (
+          <span className="chart-zoom-buttons chart-export-buttons">
+            {exportError ? <span className="muted">{exportError}</span> : null}
+            <button className="link-button" onClick={() => exportChart('svg')}>
+              SVG
+            </button>
+            <button className="link-button" onClick={() => exportChart('png')}>
+              PNG
+            </button>
+          </span>
+        ) : null}
+      </div>
+    </div>
+  )
+}
+
+function buildStepPath(
+  points: DataPoint[],
+  scaleX: (value: number) => number,
+  scaleY: (point: DataPoint) => number
+) {
+  if (points.length === 0) return ''
+  const sorted = [...points].sort((a, b) => a.dateValue - b.dateValue)
+  let path = `M ${scaleX(sorted[0].dateValue)} ${scaleY(sorted[0])}`
+  for (let i = 1; i < sorted.length; i++) {
+    const point = sorted[i]
+    const x = scaleX(point.dateValue)
+    const y = scaleY(point)
+    path += ` H ${x} V ${y}`
+  }
+  return path
+}
@@ -0,0 +1,92 @@
+import type { TimelinePoint } from '../data/index.ts'
+
+export type ChartSeries = {
+  id: string
+  label: string
+  color: string
+  points: TimelinePoint[]
+  /** Value the relative y axes compare against; defaults to the last point. */
+  baseline?: number
+}
+
+export const Y_AXIS = {
+  Time: 'time',
+  Log: 'log',
+  Gap: 'gap',
+  Relative: 'relative',
+} as const
+
+export type YAxisMode = (typeof Y_AXIS)[keyof typeof Y_AXIS]
+
+export const Y_AXIS_LABEL: Record<YAxisMode, string> = {
+  [Y_AXIS.Time]: 'Time',
+  [Y_AXIS.Log]: 'Time (log)',
+  [Y_AXIS.Gap]: 'Gap to current WR',
+  [Y_AXIS.Relative]: '% of current WR',
+}
+
+export const CLASS_COLOR = {
+  Solly: 'var(--accent)',
+  Demo: 'var(--accent-alt)',
+} as const
+
+// Colours for overlaid zone series, in the order zones are added to the chart.
+export const SERIES_COLORS = [
+  'var(--accent)',
+  'var(--accent-alt)',
+  '#6b8f3f',
+  '#8f3f6b',
+  '#c99a2e',
+  '#3f8f86',
+  '#7a5cc2',
+  '#5d564c',
+]
+
+export function buildDateTicks(min: number, max: number) {
+  const day = 86_400_000
+  const spanDays = (max - min) / day
+  const ticks: Array<{ value: number; label: string }> = []
+  if (!Number.isFinite(spanDays) || spanDays <= 0) return ticks
+
+  const monthStep =
+    spanDays > 365 * 8 ? 24 : spanDays > 365 * 3 ? 12 : spanDays > 365 ? 3 : spanDays > 90 ? 1 : 0
+  if (monthStep > 0) {
+    // Start at the first month boundary on or after `min` that is a multiple of the step.
+    const start = new Date(min)
+    const firstMonth = start.getUTCMonth() + (start.getUTCDate() > 1 ? 1 : 0)
+    let year = start.getUTCFullYear()
+    let month = Math.ceil(firstMonth / monthStep) * monthStep
+    for (;;) {
+      const value = Date.UTC(year, month, 1)
+      if (value > max) break
+      const iso = new Date(value).toISOString()
+      ticks.push({ value, label: monthStep >= 12 ? iso.slice(0, 4) : iso.slice(0, 7) })
+      month += monthStep
+      year += Math.floor(month / 12)
+      month %= 12
+    }
+    return ticks
+  }
+
+  const dayStep = spanDays > 30 ? 7 : spanDays > 10 ? 2 : 1
+  for (let value = Math.ceil(min / day) * day; value <= max; value += dayStep * day) {
+    ticks.push({ value, label: new Date(value).toISOString().slice(0, 10) })
+  }
+  return ticks
+}
+
+export function buildValueTicks(min: number, max: number, steps: number[] | null, count = 4) {
+  if (!Number.isFinite(min) || !Number.isFinite(max)) return []
+  if (max - min < 1e-9) return [min]
+  const raw = (max - min) / count
+  const magnitude = 10 ** Math.floor(Math.log10(raw))
+  const step =
+    steps?.find((candidate) => candidate >= raw) ??
+    [1, 2, 5, 10].map((factor) => factor * magnitude).find((candidate) => candidate >= raw) ??
+    raw
+  const ticks: number[] = []
+  for (let value = Math.ceil(min / step) * step; value <= max + step * 1e-6; value += step) {
+    ticks.push(Number(value.toFixed(6)))
+  }
+  return ticks
+}
@@ -0,0 +1,45 @@
+import {
+  formatSeconds,
+  resolvePlayer,
+  type CsvRow,
+  type PlayerDirectory,
+  type PlayerRow
+} from '../data/index.ts'
+
+export function getTimelineRowKey(row: CsvRow) {
+  return `${row.date}-${row.record_time}-${row.segment}-${row.evidence_source}-${row.player}`
+}
+
+export function formatDate(value: string) {
+  if (!value) return ''
+  const date = new Date(value)
+  if (Number.isNaN(date.getTime())) return value
+  return date.toISOString().slice(0, 10)
+}
+
+export function formatEvidence(row: Pick<CsvRow, 'evidence' | 'evidence_source'>) {
+  const kind = (row.evidence ?? '').trim().toLowerCase()
+  const source = (row.evidence_source ?? '').trim().toLowerCase()
+
+  const kindLabel = kind || 'unknown'
+  const sourceLabel = source ? source.replaceAll('_', ' ') : ''
+
+  if (!sourceLabel) return kindLabel
+  return `${kindLabel} (${sourceLabel})`
+}
+
+export function formatReign(days: number) {
+  if (days < 1) return '<1d'
+  if (days < 60) return `${Math.floor(days)}d`
+  if (days < 730) return `${Math.floor(days / 30.44)}mo`
+  return `${(days / 365.25).toFixed(1)}y`
+}
+
+export function formatSignedSeconds(seconds: number) {
+  return `${seconds < 0 ? '-' : '+'}${formatSeconds(Math.abs(seconds))}`
+}
+
+/** The name a player goes by today, for places that show a row's player as text. */
+export function getPlayerName(row: PlayerRow, directory: PlayerDirectory | null) {
+  return resolvePlayer(row, directory)?.name ?? row.player
+}
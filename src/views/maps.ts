@@ -0,0 +1,28 @@
+import { MAP_TYPE, type MapType } from '../data/index.ts'
+
+export const MAP_SORT = {
+  Name: 'name',
+  Recent: 'recent',
+  Contested: 'contested',
+  Zones: 'zones',
+} as const
+
+export type MapSort = (typeof MAP_SORT)[keyof typeof MAP_SORT]
+
+export const CLASS_FILTER = {
+  All: 'all',
+  Solly: 'Solly',
+  Demo: 'Demo',
+} as const
+
+export type ClassFilter = (typeof CLASS_FILTER)[keyof typeof CLASS_FILTER]
+
+export const MAP_TYPE_LABEL: Record<MapType, string> = {
+  [MAP_TYPE.Jump]: 'Jump',
+  [MAP_TYPE.RocketJump]: 'Rocket jump',
+  [MAP_TYPE.StickyJump]: 'Sticky jump',
+  [MAP_TYPE.Conc]: 'Conc',
+  [MAP_TYPE.Df]: 'DF',
+}
+
+export const CLASSES = ['Solly', 'Demo'] as const
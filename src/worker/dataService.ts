@@ -0,0 +1,130 @@
+import { useEffect, useState } from 'react'
+import type { IndexData } from '../types.ts'
+import type { DataRequest, DataResult, WorkerMessage, WorkerReply } from './protocol.ts'
+
+export const REQUEST_STATUS = {
+  Idle: 'idle',
+  Pending: 'pending',
+  Success: 'success',
+  Error: 'error',
+} as const
+
+export type RequestStatus = (typeof REQUEST_STATUS)[keyof typeof REQUEST_STATUS]
+
+export type RequestProgress = { loaded: number; total: number }
+
+export type RequestState<T> = {
+  status: RequestStatus
+  /** While pending, the previous request's result, if any. */
+  data: T | null
+  /** `data` belongs to an earlier request and is shown until the current one settles. */
+  stale: boolean
+  error: string | null
+  progress: RequestProgress | null
+}
+
+type PendingRequest = {
+  resolve: (result: unknown) => void
+  reject: (error: Error) => void
+  onProgress?: (progress: RequestProgress) => void
+}
+
+let worker: Worker | null = null
+let nextId = 0
+const pending = new Map<number, PendingRequest>()
+
+function getWorker() {
+  if (!worker) {
+    worker = new Worker(new URL('./dataWorker.ts', import.meta.url), { type: 'module' })
+    worker.onmessage = (event: MessageEvent<WorkerReply>) => {
+      const reply = event.data
+      const request = pending.get(reply.id)
+      if (!request) return
+      if (reply.type === 'progress') {
+        request.onProgress?.({ loaded: reply.loaded, total: reply.total })
+        return
+      }
+      pending.delete(reply.id)
+      if (reply.type === 'result') {
+        request.resolve(reply.result)
+      } else {
+        request.reject(new Error(reply.message))
+      }
+    }
+  }
+  return worker
+}
+
+function post(message: WorkerMessage) {
+  getWorker().postMessage(message)
+}
+
+/** Hands the loaded index to the worker; call it before any request that reads across maps. */
+export function setDataIndex(index: IndexData) {
+  post({ type: 'index', index })
+}
+
+export function requestData<T extends DataRequest>(
+  request: T,
+  onProgress?: (progress: RequestProgress) => void
+) {
+  const id = nextId++
+  const promise = new Promise<DataResult<T>>((resolve, reject) => {
+    pending.set(id, { resolve: resolve as (result: unknown) => void, reject, onProgress })
+  })
+  post({ type: 'request', id, request })
+  return {
+    promise,
+    cancel: () => {
+      // The promise is left unsettled; callers that cancel have stopped listening.
+      if (!pending.delete(id)) return
+      post({ type: 'cancel', id })
+    }
+  }
+}
+
+type Settled<T> = { key: string; data: T | null; error: string | null }
+
+/**
+ * Runs `request` in the data worker and tracks it as request state. Changing the request
+ * cancels the one in flight; the last result stays available as stale data until the new one
+ * settles. Pass `null` to run nothing.
+ */
+export function useDataRequest<T extends DataRequest>(
+  request: T | null
+): RequestState<DataResult<T>> {
+  const key = request ? JSON.stringify(request) : null
+  const [settled, setSettled] = useState<Settled<DataResult<T>> | null>(null)
+  const [progress, setProgress] = useState<(RequestProgress & { key: string }) | null>(null)
+
+  useEffect(() => {
+    if (!key) return
+    const job = requestData(JSON.parse(key) as T, (next) => setProgress({ key, ...next }))
+    job.promise.then(
+      (data) => setSettled({ key, data, error: null }),
+      (error: Error) => setSettled({ key, data: null, error: error.message })
+    )
+    return job.cancel
+  }, [key])
+
+  if (!key) {
+    return { status: REQUEST_STATUS.Idle, data: null, stale: false, error: null, progress: null }
+  }
+  if (settled?.key === key) {
+    return {
+      status: settled.error ? REQUEST_STATUS.Error : REQUEST_STATUS.Success,
+      data: settled.data,
+      stale: false,
+      error: settled.error,
+      progress: null
+    }
+  }
+  return {
+    status: REQUEST_STATUS.Pending,
+    data: settled?.data ?? null,
+    stale: settled?.data != null,
+    error: null,
+    progress:
+      progress?.key === key ? { loaded: progress.loaded, total: progress.total } : null
+  }
+}
@@ -0,0 +1,228 @@
+import {
+  buildCommunityStats,
+  buildHeadToHead,
+  buildLeaderboard,
+  buildPlayerProfile,
+  buildWorldSnapshot,
+  buildZoneTimelines,
+  decodeShard,
+  parseCsv,
+  type DataFile,
+  type ZoneTimeline
+} from '../data/index.ts'
+import type { ActivityIndex, IndexData } from '../types.ts'
+import type { DataRequest, DataResults, WorkerMessage, WorkerReply } from './protocol.ts'
+
+const FETCH_CONCURRENCY = 8
+// Parsed files kept in memory; enough for a long session of map hopping without holding all 1.7k.
+const TIMELINE_CACHE_SIZE = 100
+
+let index: IndexData | null = null
+let allFiles: DataFile[] | null = null
+const timelineCache = new Map<string, ZoneTimeline[]>()
+const controllers = new Map<number, AbortController>()
+
+self.onmessage = (event: MessageEvent<WorkerMessage>) => {
+  const message = event.data
+  switch (message.type) {
+    case 'index':
+      if (index?.generatedAt !== message.index.generatedAt) {
+        // New data: everything parsed so far may be out of date.
+        allFiles = null
+        timelineCache.clear()
+      }
+      index = message.index
+      break
+    case 'request':
+      run(message.id, message.request)
+      break
+    case 'cancel':
+      controllers.get(message.id)?.abort()
+      controllers.delete(message.id)
+      break
+  }
+}
+
+async function run(id: number, request: DataRequest) {
+  const controller = new AbortController()
+  controllers.set(id, controller)
+  const onProgress = (loaded: number, total: number) => {
+    reply({ type: 'progress', id, loaded, total })
+  }
+  try {
+    const result = await handle(request, controller.signal, onProgress)
+    if (!controller.signal.aborted) reply({ type: 'result', id, result })
+  } catch (error) {
+    if (!controller.signal.aborted) {
+      reply({ type: 'error', id, message: error instanceof Error ? error.message : String(error) })
+    }
+  } finally {
+    controllers.delete(id)
+  }
+}
+
+async function handle(
+  request: DataRequest,
+  signal: AbortSignal,
+  onProgress: (loaded: number, total: number) => void
+): Promise<DataResults[keyof DataResults]> {
+  switch (request.type) {
+    case 'timelines':
+      return loadTimelines(request.file, signal)
+    case 'playerProfile': {
+      const files = await loadAllFiles(signal, onProgress)
+      return buildPlayerProfile(files, request.playerKey, index?.players)
+    }
+    case 'worldSnapshot': {
+      const files = await loadAllFiles(signal, onProgress)
+      return buildWorldSnapshot(files, request, index?.players)
+    }
+    case 'leaderboard': {
+      const files = await loadAllFiles(signal, onProgress)
+      return buildLeaderboard(files, request.className, index?.players)
+    }
+    case 'headToHead': {
+      const files = await loadAllFiles(signal, onProgress)
+      return buildHeadToHead(files, request.players, index?.players)
+    }
+    case 'communityStats': {
+      const files = await loadAllFiles(signal, onProgress)
+      return buildCommunityStats(files, index?.players)
+    }
+    case 'cacheAll':
+      return cacheAllFiles(signal, onProgress)
+  }
+}
+
+function reply(message: WorkerReply) {
+  self.postMessage(message)
+}
+
+function requireIndex() {
+  if (!index) throw new Error('The map index has not loaded yet.')
+  return index
+}
+
+async function fetchFile(file: string, signal: AbortSignal) {
+  const res = await fetch(`${import.meta.env.BASE_URL}${file}`, { signal })
+  if (!res.ok) throw new Error(`Failed to load ${file} (${res.status})`)
+  return res
+}
+
+async function loadTimelines(file: string, signal: AbortSignal) {
+  const cached = timelineCache.get(file)
+  if (cached) {
+    // Re-insert so the map keeps least recently used entries first.
+    timelineCache.delete(file)
+    timelineCache.set(file, cached)
+    return cached
+  }
+
+  const res = await fetchFile(file, signal)
+  const timelines = buildZoneTimelines(parseCsv(await res.text()))
+  timelineCache.set(file, timelines)
+  if (timelineCache.size > TIMELINE_CACHE_SIZE) {
+    timelineCache.delete(timelineCache.keys().next().value!)
+  }
+  return timelines
+}
+
+function getDataFiles(data: IndexData) {
+  return data.maps.flatMap((entry) =>
+    entry.classes
+      .filter((className) => entry.files[className])
+      .map((className) => ({
+        map: entry.map,
+        className: className as 'Solly' | 'Demo',
+        file: entry.files[className]
+      }))
+  )
+}
+
+async function fetchEach<T>(
+  jobs: T[],
+  getFile: (job: T) => string,
+  signal: AbortSignal,
+  onFile: (job: T, res: Response) => Promise<void>,
+  onProgress: (loaded: number, total: number) => void
+) {
+  // Fetch with a small worker pool instead of 1.7k parallel requests.
+  let next = 0
+  let loaded = 0
+  onProgress(loaded, jobs.length)
+
+  const worker = async () => {
+    while (next < jobs.length) {
+      const job = jobs[next++]
+      await onFile(job, await fetchFile(getFile(job), signal))
+      loaded++
+      onProgress(loaded, jobs.length)
+    }
+  }
+
+  await Promise.all(Array.from({ length: FETCH_CONCURRENCY }, worker))
+}
+
+async function loadAllFiles(
+  signal: AbortSignal,
+  onProgress: (loaded: number, total: number) => void
+): Promise<DataFile[]> {
+  if (allFiles) return allFiles
+  const data = requireIndex()
+
+  // Cross-map views need every file: read the packed shards, or every CSV for an older index.
+  const files: DataFile[] = []
+  if (data.shards?.length) {
+    await fetchEach(
+      data.shards,
+      (shard) => shard.file,
+      signal,
+      async (_shard, res) => {
+        files.push(...decodeShard(await res.json()))
+      },
+      onProgress
+    )
+  } else {
+    await fetchEach(
+      getDataFiles(data),
+      (job) => job.file,
+      signal,
+      async (job, res) => {
+        files.push({ map: job.map, className: job.className, rows: parseCsv(await res.text()) })
+      },
+      onProgress
+    )
+  }
+
+  // Only keep the result if the index did not change while loading.
+  const sorted = files.sort(
+    (a, b) => a.map.localeCompare(b.map) || a.className.localeCompare(b.className)
+  )
+  if (index === data) allFiles = sorted
+  return sorted
+}
+
+async function cacheAllFiles(
+  signal: AbortSignal,
+  onProgress: (loaded: number, total: number) => void
+) {
+  // Requests go through the service worker, which keeps a copy of every response.
+  const data = requireIndex()
+  const res = await fetchFile('data/activity/index.json', signal)
+  const activity: ActivityIndex = await res.json()
+  const files = [
+    ...getDataFiles(data).map((job) => job.file),
+    ...(data.shards ?? []).map((shard) => shard.file),
+    ...activity.years.map((year) => year.file)
+  ]
+  await fetchEach(
+    files,
+    (file) => file,
+    signal,
+    async (_file, res) => {
+      await res.blob()
+    },
+    onProgress
+  )
+  return files.length
+}
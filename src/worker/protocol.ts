@@ -0,0 +1,44 @@
+import type {
+  CommunityStats,
+  HeadToHead,
+  Leaderboard,
+  PlayerProfile,
+  WorldSnapshot,
+  WorldSnapshotOptions,
+  ZoneTimeline
+} from '../data/index.ts'
+import type { IndexData } from '../types.ts'
+
+/** Work the data worker can do, keyed by `type`. */
+export type DataRequest =
+  | { type: 'timelines'; file: string }
+  | { type: 'playerProfile'; playerKey: string }
+  | ({ type: 'worldSnapshot' } & WorldSnapshotOptions)
+  | { type: 'leaderboard'; className: 'Solly' | 'Demo' }
+  | { type: 'headToHead'; players: [string, string] }
+  | { type: 'communityStats' }
+  | { type: 'cacheAll' }
+
+export type DataResults = {
+  /** Every zone timeline of one CSV, the map timeline included (`zone: null`). */
+  timelines: ZoneTimeline[]
+  playerProfile: PlayerProfile | null
+  worldSnapshot: WorldSnapshot
+  leaderboard: Leaderboard
+  headToHead: HeadToHead
+  communityStats: CommunityStats
+  /** Number of files fetched so the service worker holds a copy. */
+  cacheAll: number
+}
+
+export type DataResult<T extends DataRequest> = DataResults[T['type']]
+
+export type WorkerMessage =
+  | { type: 'index'; index: IndexData }
+  | { type: 'request'; id: number; request: DataRequest }
+  | { type: 'cancel'; id: number }
+
+export type WorkerReply =
+  | { type: 'result'; id: number; result: DataResults[keyof DataResults] }
+  | { type: 'error'; id: number; message: string }
+  | { type: 'progress'; id: number; loaded: number; total: number }
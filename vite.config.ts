@@ -1,8 +1,32 @@
-import { defineConfig } from 'vite'
+import { createHash } from 'node:crypto'
+import fs from 'node:fs'
+import { defineConfig, type Plugin } from 'vite'
 import react from '@vitejs/plugin-react'
 
+function serviceWorker(): Plugin {
+  return {
+    name: 'service-worker',
+    apply: 'build',
+    generateBundle(_options, bundle) {
+      // Precache the app shell; data files are cached by the worker as they are visited.
+      const precache = Array.from(new Set(['', 'index.html', 'vite.svg', ...Object.keys(bundle)]))
+        .filter((file) => !file.endsWith('.map'))
+        .sort()
+      const buildId = createHash('sha256').update(precache.join('\n')).digest('hex').slice(0, 12)
+      const template = fs.readFileSync(new URL('./src/service-worker.js', import.meta.url), 'utf8')
+      this.emitFile({
+        type: 'asset',
+        fileName: 'sw.js',
+        source: template
+          .replace("'__BUILD_ID__'", JSON.stringify(buildId))
+          .replace('__PRECACHE__', JSON.stringify(precache))
+      })
+    },
+  }
+}
+
 // https://vite.dev/config/
 export default defineConfig({
   base: '/',
-  plugins: [react()],
+  plugins: [react(), serviceWorker()],
 })